@@ -0,0 +1,83 @@
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+
+// Name of the profile built from TOGGL_API_KEY
+export const DEFAULT_ACCOUNT = 'default';
+
+export interface AccountProfile {
+  name: string;
+  apiKey: string;
+  defaultWorkspaceId?: number;
+  source: 'TOGGL_API_KEY' | 'TOGGL_PROFILES' | 'TOGGL_PROFILES_FILE';
+}
+
+const PROFILE_NAME = /^[\w.-]+$/;
+
+function checkName(name: string, source: string): void {
+  if (!PROFILE_NAME.test(name)) {
+    throw new Error(`Invalid profile name "${name}" in ${source} (use letters, digits, "_", "." or "-")`);
+  }
+}
+
+// Inline profiles: "personal=<token>,acme=<token>"
+export function parseProfiles(spec: string | undefined): AccountProfile[] {
+  if (!spec?.trim()) return [];
+  return spec.split(',').filter(pair => pair.trim()).map(pair => {
+    const separator = pair.indexOf('=');
+    const name = pair.slice(0, separator).trim();
+    const apiKey = pair.slice(separator + 1).trim();
+    if (separator < 0 || !apiKey) {
+      throw new Error(`Invalid TOGGL_PROFILES entry "${name || pair.trim()}" (expected <name>=<api token>)`);
+    }
+    checkName(name, 'TOGGL_PROFILES');
+    return { name, apiKey, source: 'TOGGL_PROFILES' };
+  });
+}
+
+// One profile as written in the profiles file, checked before use
+interface ProfileFileEntry {
+  api_key?: unknown;
+  default_workspace_id?: unknown;
+}
+
+// Profiles file: {"acme": {"api_key": "...", "default_workspace_id": 123}}
+export function loadProfilesFile(path: string): AccountProfile[] {
+  const resolved = path.trim().replace(/^~(?=$|\/)/, homedir());
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(resolved, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read TOGGL_PROFILES_FILE ${resolved}: ${(error as Error).message}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`TOGGL_PROFILES_FILE ${resolved} must contain an object of profiles keyed by name`);
+  }
+
+  return Object.entries(data as Record<string, unknown>).map(([name, value]) => {
+    checkName(name, 'TOGGL_PROFILES_FILE');
+    const profile: ProfileFileEntry = value && typeof value === 'object' ? value : {};
+    const apiKey = typeof profile.api_key === 'string' ? profile.api_key.trim() : '';
+    if (!apiKey) {
+      throw new Error(`Profile "${name}" in TOGGL_PROFILES_FILE has no api_key`);
+    }
+    const workspaceId = profile.default_workspace_id;
+    if (workspaceId !== undefined && (typeof workspaceId !== 'number' || !Number.isInteger(workspaceId))) {
+      throw new Error(`Profile "${name}" in TOGGL_PROFILES_FILE has an invalid default_workspace_id`);
+    }
+    return { name, apiKey, defaultWorkspaceId: workspaceId, source: 'TOGGL_PROFILES_FILE' };
+  });
+}
+
+// All profiles, rejecting duplicate names so a call never reaches the wrong account
+export function collectProfiles(...groups: AccountProfile[][]): AccountProfile[] {
+  const profiles = groups.flat();
+  const seen = new Set<string>();
+  profiles.forEach(profile => {
+    const key = profile.name.toLowerCase();
+    if (seen.has(key)) {
+      throw new Error(`Profile "${profile.name}" is defined more than once`);
+    }
+    seen.add(key);
+  });
+  return profiles;
+}
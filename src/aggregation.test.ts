@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generatePeriodReport, summarizeTotals } from './aggregation.js';
+import { getDayRange } from './utils.js';
+import type { HydratedTimeEntry } from './types.js';
+
+const UTC = { timeZone: 'UTC', beginningOfWeek: 1 };
+
+function entry(id: number, start: string, duration: number, extra: Partial<HydratedTimeEntry> = {}): HydratedTimeEntry {
+  return { id, workspace_id: 1, workspace_name: 'Agency', start, duration, billable: false, tags: [], ...extra } as HydratedTimeEntry;
+}
+
+test('totals leave running timers out of billable time', () => {
+  const totals = summarizeTotals([
+    entry(1, '2026-10-05T09:00:00Z', 3600, { billable: true }),
+    entry(2, '2026-10-05T11:00:00Z', -1760000000, { billable: true }),
+    entry(3, '2026-10-05T12:00:00Z', 1800)
+  ]);
+  assert.equal(totals.billable_seconds, 3600);
+  assert.equal(totals.entry_count, 3);
+});
+
+test('period reports sort groups by hours with the no-value group last and clip weeks to the range', () => {
+  const range = getDayRange('2026-10-07', '2026-10-13', 'UTC');
+  const report = generatePeriodReport(range.start, range.end, [
+    entry(1, '2026-10-07T09:00:00Z', 7200),
+    entry(2, '2026-10-08T09:00:00Z', 3600, { project_id: 100, project_name: 'Website', tags: ['meeting'] }),
+    entry(3, '2026-10-12T09:00:00Z', 1800, { project_id: 101, project_name: 'Support', tags: ['meeting', 'internal'] })
+  ], UTC);
+
+  assert.deepEqual(report.by_project.map(p => p.project_name), ['Website', 'Support', 'No Project']);
+  assert.deepEqual(report.by_tag.map(t => [t.tag_name, t.total_seconds]), [
+    ['meeting', 5400], ['internal', 1800], ['Untagged', 7200]
+  ]);
+  assert.deepEqual(report.weekly_breakdown.map(w => [w.week_start, w.week_end]), [
+    ['2026-10-07', '2026-10-11'], ['2026-10-12', '2026-10-13']
+  ]);
+});
+
+test('same-named tags in different workspaces stay apart and keep their ids', () => {
+  const range = getDayRange('2026-10-05', '2026-10-05', 'UTC');
+  const report = generatePeriodReport(range.start, range.end, [
+    entry(1, '2026-10-05T09:00:00Z', 3600, { tags: ['meeting'], tag_ids: [10], tag_names: ['meeting'] }),
+    entry(2, '2026-10-05T10:00:00Z', 1800, { tags: ['meeting'], tag_ids: [10], tag_names: ['meeting'] }),
+    entry(3, '2026-10-05T11:00:00Z', 900, {
+      workspace_id: 2, workspace_name: 'Personal', tags: ['meeting'], tag_ids: [20], tag_names: ['meeting']
+    })
+  ], UTC);
+
+  assert.deepEqual(report.by_tag.map(t => [t.tag_id, t.tag_name, t.total_seconds]), [
+    [10, 'meeting', 5400], [20, 'meeting', 900]
+  ]);
+});
@@ -0,0 +1,374 @@
+import type {
+  HydratedTimeEntry,
+  BreakdownTotals,
+  DailyReport,
+  WeeklyReport,
+  PeriodReport,
+  ProjectSummary,
+  ClientSummary,
+  TagSummary,
+  WorkspaceSummary,
+  UserSummary,
+  PivotDimension,
+  PivotMetric,
+  PivotMetrics,
+  PivotNode,
+  TimeZoneSettings
+} from './types.js';
+import {
+  UNTAGGED,
+  addDays,
+  calculateBillableDuration,
+  calculateTotalDuration,
+  createReportEntry,
+  defaultTimeZoneSettings,
+  getWeekStart,
+  secondsToHours,
+  summarizeBillableAmounts,
+  summarizeDescriptions,
+  toZonedDate
+} from './utils.js';
+
+export const PIVOT_DIMENSIONS: PivotDimension[] = [
+  'workspace', 'client', 'project', 'task', 'tag', 'user', 'day', 'week', 'month', 'billable'
+];
+
+export const PIVOT_METRICS: PivotMetric[] = ['hours', 'billable_hours', 'entry_count', 'amount'];
+
+export const DEFAULT_PIVOT_METRICS: PivotMetric[] = ['hours', 'billable_hours', 'entry_count'];
+
+// Dimensions whose groups read best in date order rather than by hours
+const CHRONOLOGICAL: ReadonlySet<PivotDimension> = new Set(['day', 'week', 'month']);
+
+// Group labels for entries without a value for the dimension
+const NO_VALUE: Partial<Record<PivotDimension, string>> = {
+  client: 'No Client',
+  project: 'No Project',
+  task: 'No Task',
+  tag: UNTAGGED
+};
+
+export interface EntryGroup {
+  key: string;
+  id?: number;
+  entries: HydratedTimeEntry[];
+}
+
+// The group(s) an entry belongs to for a dimension. Only tags can yield
+// several, so multi-tagged entries count toward each tag. `groupKey`
+// overrides the id/label key used to tell groups apart.
+function groupKeys(
+  entry: HydratedTimeEntry,
+  dimension: PivotDimension,
+  settings: TimeZoneSettings
+): Array<{ key: string; id?: number; groupKey?: string }> {
+  switch (dimension) {
+    case 'workspace':
+      return [{ key: entry.workspace_name, id: entry.workspace_id }];
+    case 'client':
+      return [{ key: entry.client_name || NO_VALUE.client!, id: entry.client_id }];
+    case 'project':
+      return [{ key: entry.project_name || NO_VALUE.project!, id: entry.project_id }];
+    case 'task':
+      return [{ key: entry.task_name || NO_VALUE.task!, id: entry.task_id }];
+    case 'tag': {
+      const names = entry.tag_names?.length ? entry.tag_names : entry.tags || [];
+      // Names line up with ids unless some tags failed to hydrate
+      const ids = entry.tag_ids?.length === names.length ? entry.tag_ids : undefined;
+      // Tag names are unique per workspace, so same-named tags in different
+      // workspaces stay apart whether or not their ids are known
+      return names.length > 0
+        ? Array.from(new Set(names), key => ({
+          key,
+          id: ids?.[names.indexOf(key)],
+          groupKey: `tag:${entry.workspace_id}:${key}`
+        }))
+        : [{ key: NO_VALUE.tag! }];
+    }
+    case 'user':
+      return [{
+        key: entry.user_name || (entry.user_id ? `User ${entry.user_id}` : 'Unknown User'),
+        id: entry.user_id
+      }];
+    case 'day':
+      return [{ key: toZonedDate(new Date(entry.start), settings.timeZone) }];
+    case 'week':
+      return [{ key: getWeekStart(toZonedDate(new Date(entry.start), settings.timeZone), settings) }];
+    case 'month':
+      return [{ key: toZonedDate(new Date(entry.start), settings.timeZone).slice(0, 7) }];
+    case 'billable':
+      return [{ key: entry.billable ? 'Billable' : 'Non-billable' }];
+  }
+}
+
+// Group entries by one dimension. Groups with an id are keyed by it, so two
+// projects sharing a name in different workspaces stay apart.
+export function groupEntriesBy(
+  entries: HydratedTimeEntry[],
+  dimension: PivotDimension,
+  settings: TimeZoneSettings = defaultTimeZoneSettings()
+): EntryGroup[] {
+  const groups = new Map<string, EntryGroup>();
+
+  entries.forEach(entry => {
+    groupKeys(entry, dimension, settings).forEach(({ key, id, groupKey }) => {
+      const mapKey = groupKey ?? (id !== undefined ? `id:${id}` : `key:${key}`);
+      if (!groups.has(mapKey)) {
+        groups.set(mapKey, { key, id, entries: [] });
+      }
+      const group = groups.get(mapKey)!;
+      group.id ??= id;
+      group.entries.push(entry);
+    });
+  });
+
+  return Array.from(groups.values());
+}
+
+// Groups sorted by total hours descending with the "No Project"-style group
+// last, or chronologically for date dimensions
+function sortedGroups(
+  entries: HydratedTimeEntry[],
+  dimension: PivotDimension,
+  settings: TimeZoneSettings
+): EntryGroup[] {
+  const groups = groupEntriesBy(entries, dimension, settings)
+    .map(group => ({ group, seconds: calculateTotalDuration(group.entries) }));
+
+  if (CHRONOLOGICAL.has(dimension)) {
+    groups.sort((a, b) => a.group.key.localeCompare(b.group.key));
+  } else {
+    const noValue = NO_VALUE[dimension];
+    groups.sort((a, b) =>
+      Number(a.group.key === noValue) - Number(b.group.key === noValue) || b.seconds - a.seconds
+    );
+  }
+  return groups.map(({ group }) => group);
+}
+
+// One summary per group, in sortedGroups order
+export function summarizeBy<T>(
+  entries: HydratedTimeEntry[],
+  dimension: PivotDimension,
+  summarize: (group: EntryGroup) => T,
+  settings: TimeZoneSettings = defaultTimeZoneSettings()
+): T[] {
+  return sortedGroups(entries, dimension, settings).map(summarize);
+}
+
+// Requested metrics for a set of entries
+export function computeMetrics(entries: HydratedTimeEntry[], metrics: PivotMetric[]): PivotMetrics {
+  const result: PivotMetrics = {};
+  if (metrics.includes('hours')) {
+    result.hours = secondsToHours(calculateTotalDuration(entries));
+  }
+  if (metrics.includes('billable_hours')) {
+    result.billable_hours = secondsToHours(calculateBillableDuration(entries));
+  }
+  if (metrics.includes('entry_count')) {
+    result.entry_count = entries.length;
+  }
+  if (metrics.includes('amount')) {
+    Object.assign(result, summarizeBillableAmounts(entries));
+  }
+  return result;
+}
+
+// Nested tree of groups, one level per dimension in order
+export function buildPivot(
+  entries: HydratedTimeEntry[],
+  dimensions: PivotDimension[],
+  metrics: PivotMetric[] = DEFAULT_PIVOT_METRICS,
+  settings: TimeZoneSettings = defaultTimeZoneSettings()
+): PivotNode[] {
+  const [dimension, ...rest] = dimensions;
+  if (!dimension) return [];
+
+  return sortedGroups(entries, dimension, settings).map(group => {
+    const node: PivotNode = {
+      dimension,
+      key: group.key,
+      ...(group.id !== undefined ? { id: group.id } : {}),
+      ...computeMetrics(group.entries, metrics)
+    };
+    if (rest.length > 0) {
+      node.children = buildPivot(group.entries, rest, metrics, settings);
+    }
+    return node;
+  });
+}
+
+// Hours, billable hours, entry count and amounts for a set of entries
+export function summarizeTotals(entries: HydratedTimeEntry[]): BreakdownTotals {
+  const totalSeconds = calculateTotalDuration(entries);
+  const billableSeconds = calculateBillableDuration(entries);
+
+  return {
+    total_hours: secondsToHours(totalSeconds),
+    total_seconds: totalSeconds,
+    billable_hours: secondsToHours(billableSeconds),
+    billable_seconds: billableSeconds,
+    entry_count: entries.length,
+    ...summarizeBillableAmounts(entries)
+  };
+}
+
+function projectCount(entries: HydratedTimeEntry[]): number {
+  return new Set(entries.map(e => e.project_id).filter(Boolean)).size;
+}
+
+// Generate project summary
+export function generateProjectSummary(
+  projectName: string,
+  entries: HydratedTimeEntry[]
+): ProjectSummary {
+  const { entry_count, ...totals } = summarizeTotals(entries);
+  return {
+    project_id: entries[0]?.project_id,
+    project_name: projectName,
+    client_name: entries[0]?.client_name,
+    workspace_name: entries[0]?.workspace_name || 'Unknown',
+    ...totals,
+    entry_count,
+    hourly_rate: entries.find(e => e.hourly_rate)?.hourly_rate,
+    fixed_fee: entries[0]?.fixed_fee
+  };
+}
+
+// Generate client summary
+export function generateClientSummary(
+  clientName: string,
+  entries: HydratedTimeEntry[]
+): ClientSummary {
+  const { entry_count, ...totals } = summarizeTotals(entries);
+  return {
+    client_id: entries[0]?.client_id,
+    client_name: clientName,
+    workspace_name: entries[0]?.workspace_name || 'Unknown',
+    ...totals,
+    project_count: projectCount(entries),
+    entry_count
+  };
+}
+
+// Generate tag summary
+export function generateTagSummary(
+  tagName: string,
+  entries: HydratedTimeEntry[],
+  tagId?: number
+): TagSummary {
+  return {
+    ...(tagId !== undefined ? { tag_id: tagId } : {}),
+    tag_name: tagName,
+    ...summarizeTotals(entries)
+  };
+}
+
+// Generate workspace summary
+export function generateWorkspaceSummary(
+  workspaceName: string,
+  workspaceId: number,
+  entries: HydratedTimeEntry[]
+): WorkspaceSummary {
+  const { entry_count, ...totals } = summarizeTotals(entries);
+  return {
+    workspace_id: workspaceId,
+    workspace_name: workspaceName,
+    ...totals,
+    project_count: projectCount(entries),
+    entry_count
+  };
+}
+
+// Generate user summary
+export function generateUserSummary(
+  userName: string,
+  entries: HydratedTimeEntry[]
+): UserSummary {
+  const { entry_count, ...totals } = summarizeTotals(entries);
+  return {
+    user_id: entries[0]?.user_id,
+    user_name: userName,
+    ...totals,
+    project_count: projectCount(entries),
+    entry_count
+  };
+}
+
+// The by_* sections shared by daily, weekly and period reports, each sorted
+// by hours with "No Project"-style groups last
+function reportSections(entries: HydratedTimeEntry[]) {
+  return {
+    by_project: summarizeBy(entries, 'project', group => generateProjectSummary(group.key, group.entries)),
+    by_client: summarizeBy(entries, 'client', group => generateClientSummary(group.key, group.entries)),
+    by_workspace: summarizeBy(entries, 'workspace', group =>
+      generateWorkspaceSummary(group.key, group.id ?? 0, group.entries)
+    ),
+    by_user: summarizeBy(entries, 'user', group => generateUserSummary(group.key, group.entries)),
+    by_tag: summarizeBy(entries, 'tag', group => generateTagSummary(group.key, group.entries, group.id)),
+    top_descriptions: summarizeDescriptions(entries)
+  };
+}
+
+// Generate daily report
+export function generateDailyReport(date: string, entries: HydratedTimeEntry[]): DailyReport {
+  const totalSeconds = calculateTotalDuration(entries);
+  return {
+    date,
+    total_hours: secondsToHours(totalSeconds),
+    total_seconds: totalSeconds,
+    entries: entries.map(createReportEntry),
+    ...reportSections(entries)
+  };
+}
+
+// Generate weekly report for a range with an exclusive end
+export function generateWeeklyReport(
+  weekStart: Date,
+  weekEnd: Date,
+  entries: HydratedTimeEntry[],
+  settings: TimeZoneSettings = defaultTimeZoneSettings()
+): WeeklyReport {
+  const { timeZone } = settings;
+  const totalSeconds = calculateTotalDuration(entries);
+  return {
+    week_start: toZonedDate(weekStart, timeZone),
+    week_end: toZonedDate(new Date(weekEnd.getTime() - 1), timeZone),
+    total_hours: secondsToHours(totalSeconds),
+    total_seconds: totalSeconds,
+    daily_breakdown: summarizeBy(entries, 'day', group => generateDailyReport(group.key, group.entries), settings),
+    ...reportSections(entries)
+  };
+}
+
+// Generate a report for any range (exclusive end) with daily and weekly
+// breakdowns; weeks follow the configured week start and are clipped to the range
+export function generatePeriodReport(
+  start: Date,
+  end: Date,
+  entries: HydratedTimeEntry[],
+  settings: TimeZoneSettings = defaultTimeZoneSettings()
+): PeriodReport {
+  const { timeZone } = settings;
+  const firstDay = toZonedDate(start, timeZone);
+  const lastDay = toZonedDate(new Date(end.getTime() - 1), timeZone);
+
+  return {
+    period_start: firstDay,
+    period_end: lastDay,
+    ...summarizeTotals(entries),
+    daily_breakdown: summarizeBy(entries, 'day', group => ({
+      date: group.key,
+      ...summarizeTotals(group.entries)
+    }), settings),
+    weekly_breakdown: summarizeBy(entries, 'week', group => {
+      const weekEnd = addDays(group.key, 6);
+      return {
+        week_start: group.key < firstDay ? firstDay : group.key,
+        week_end: weekEnd > lastDay ? lastDay : weekEnd,
+        ...summarizeTotals(group.entries)
+      };
+    }, settings),
+    ...reportSections(entries)
+  };
+}
@@ -0,0 +1,216 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CacheManager } from './cache-manager.js';
+import { CACHE_SCHEMA_VERSION, JsonFileCacheStore, cacheFileKey } from './cache-store.js';
+import { TogglAPI } from './toggl-api.js';
+import { FakeToggl, FAKE_TOGGL_BASE_URL, type FakeTogglSeed } from './fake-toggl.js';
+import type { CacheConfig, TimeEntry, TogglFetch } from './types.js';
+
+function setup(seed: FakeTogglSeed, config: Partial<CacheConfig> = {}) {
+  const fake = new FakeToggl(seed);
+  const cache = new CacheManager({ ttl: 60_000, maxSize: 1000, batchSize: 100, syncInterval: 1, ...config });
+  cache.setAPI(new TogglAPI('test-token', { baseUrl: FAKE_TOGGL_BASE_URL, fetch: fake.fetch }));
+  return { fake, cache };
+}
+
+const fetched = (fake: FakeToggl, path: string) =>
+  fake.requests.filter(r => r.method === 'GET' && r.path === path).length;
+
+test('delta sync patches changed entities into the cache', async () => {
+  const { fake, cache } = setup({
+    projects: [{ id: 100, workspace_id: 1, name: 'Website', active: true, at: '2020-01-01T00:00:00Z' }]
+  });
+  await cache.warmCache(1);
+
+  fake.projects[0] = { ...fake.projects[0], name: 'Website Redesign', at: new Date(Date.now() + 1000).toISOString() };
+  const result = await cache.syncChanges();
+  assert.equal(result?.updated.projects, 1);
+  assert.equal((await cache.getProject(100, 1))?.name, 'Website Redesign');
+});
+
+test('delta sync does not extend the TTL of entities it did not return', async () => {
+  const { fake, cache } = setup({
+    projects: [{ id: 100, workspace_id: 1, name: 'Website', active: true, at: '2020-01-01T00:00:00Z' }]
+  }, { ttl: 200 });
+  await cache.warmCache(1);
+  assert.ok(await cache.getWorkspace(1));
+
+  await sleep(250);
+  const result = await cache.syncChanges();
+  assert.equal(result?.updated.projects, 0);
+
+  const before = fetched(fake, '/api/v9/workspaces/1/projects/100');
+  await cache.getProject(100, 1);
+  assert.equal(fetched(fake, '/api/v9/workspaces/1/projects/100'), before + 1);
+
+  const workspaceFetches = fetched(fake, '/api/v9/workspaces/1');
+  await cache.getWorkspace(1);
+  assert.equal(fetched(fake, '/api/v9/workspaces/1'), workspaceFetches + 1);
+});
+
+test('fixed-fee projects do not fall back to the workspace hourly rate', async () => {
+  const { cache } = setup({
+    workspaces: [{ id: 1, name: 'Agency', default_currency: 'USD', default_hourly_rate: 80 }],
+    projects: [
+      { id: 100, workspace_id: 1, name: 'Launch', fixed_fee: 5000, active: true },
+      { id: 101, workspace_id: 1, name: 'Support', active: true }
+    ]
+  });
+  const entry = (id: number, projectId: number) =>
+    ({ id, workspace_id: 1, project_id: projectId, start: '2026-10-01T09:00:00Z', duration: 3600, billable: true });
+
+  const [fixedFee, hourly] = await cache.hydrateTimeEntries([entry(400, 100), entry(401, 101)]);
+  assert.equal(fixedFee.fixed_fee, 5000);
+  assert.equal(fixedFee.hourly_rate, undefined);
+  assert.equal(hourly.hourly_rate, 80);
+});
+
+test('workspace lists are served from the cache once fetched', async () => {
+  const { fake, cache } = setup({
+    projects: [{ id: 100, workspace_id: 1, name: 'Website', active: true }],
+    tags: [{ id: 300, workspace_id: 1, name: 'meeting' }]
+  });
+  await cache.warmCache(1);
+  const projectFetches = fetched(fake, '/api/v9/workspaces/1/projects');
+
+  cache.update('projects', { id: 101, workspace_id: 1, name: 'Support', active: true });
+  const projects = await cache.listProjects(1);
+  assert.deepEqual(projects.map(p => p.name), ['Support', 'Website']);
+  assert.equal(fetched(fake, '/api/v9/workspaces/1/projects'), projectFetches);
+
+  cache.invalidate('tags', 300);
+  assert.deepEqual(await cache.listTags(1), []);
+  assert.deepEqual(await cache.listClients(2), []);
+  assert.equal(fetched(fake, '/api/v9/workspaces/2/clients'), 1);
+});
+
+test('name lookups report ambiguous and missing names', async () => {
+  const { cache } = setup({
+    projects: [
+      { id: 100, workspace_id: 1, name: 'Website Redesign', active: true },
+      { id: 101, workspace_id: 1, name: 'Website Audit', active: true }
+    ]
+  });
+
+  assert.equal((await cache.resolveProject('audit', 1)).id, 101);
+  await assert.rejects(cache.resolveProject('website', 1), (error: Error) =>
+    /Ambiguous project name "website" in workspace 1 matches 2/.test(error.message) &&
+    error.message.includes('"Website Redesign" (id 100)') &&
+    error.message.includes('"Website Audit" (id 101)')
+  );
+  await assert.rejects(cache.resolveProject('Mobile App', 1), /No project matching "Mobile App" in workspace 1/);
+});
+
+test('persisted caches round-trip through a private file', async (t) => {
+  const dir = mkdtempSync(join(tmpdir(), 'toggl-cache-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const seed = { projects: [{ id: 100, workspace_id: 1, name: 'Website', active: true }] };
+
+  const { cache } = setup(seed, { persistDir: dir, persistKey: 'test' });
+  await cache.warmCache(1);
+  cache.flush();
+  const path = join(dir, 'toggl-cache-test.json');
+  assert.equal(statSync(path).mode & 0o777, 0o600);
+
+  const { fake, cache: restored } = setup(seed, { persistDir: dir, persistKey: 'test' });
+  assert.equal(restored.hasRestoredData(), true);
+  assert.equal((await restored.getProject(100, 1))?.name, 'Website');
+  assert.equal(fake.requests.length, 0);
+});
+
+test('cache files from another schema version are discarded', (t) => {
+  const dir = mkdtempSync(join(tmpdir(), 'toggl-cache-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const store = new JsonFileCacheStore(dir, 'old');
+  writeFileSync(store.path, JSON.stringify({ version: CACHE_SCHEMA_VERSION - 1, savedAt: 0, entries: {} }));
+
+  assert.equal(store.load(), null);
+  assert.throws(() => readFileSync(store.path), /ENOENT/);
+});
+
+test('cache file keys differ per API token and endpoint', () => {
+  const key = cacheFileKey('token', 'https://api.track.toggl.com/api/v9');
+  assert.match(key, /^[0-9a-f]{16}$/);
+  assert.notEqual(key, cacheFileKey('token', 'http://127.0.0.1:4010/api/v9'));
+  assert.notEqual(key, cacheFileKey('other-token', 'https://api.track.toggl.com/api/v9'));
+});
+
+test('eviction drops the least recently used entity once a type is full', async () => {
+  const { cache } = setup({}, { limits: { projects: 2, tags: 5 } });
+  const project = (id: number) => ({ id, workspace_id: 1, name: `Project ${id}`, active: true });
+  cache.update('projects', project(100));
+  cache.update('projects', project(101));
+  cache.update('tags', { id: 300, workspace_id: 1, name: 'meeting' });
+
+  // Reading 100 makes 101 the least recently used
+  assert.equal((await cache.getProject(100))?.id, 100);
+  cache.update('projects', project(102));
+
+  const stats = cache.getStats();
+  assert.equal(stats.projects, 2);
+  assert.equal(stats.evictions.projects, 1);
+  assert.equal(stats.evictions.tags, 0);
+  assert.equal(stats.limits.projects, 2);
+  assert.equal((await cache.getProject(100))?.id, 100);
+  assert.equal((await cache.getProject(102))?.id, 102);
+  assert.equal(await cache.getProject(101, 1), null);
+});
+
+test('hydration loads each list once and caps concurrent lookups', async () => {
+  const fake = new FakeToggl({
+    clients: [{ id: 10, workspace_id: 1, name: 'Globex' }, { id: 11, workspace_id: 1, name: 'Initech' }],
+    projects: [100, 101, 102].map((id, i) => ({ id, workspace_id: 1, client_id: 10 + (i % 2), name: `P${id}`, active: true })),
+    tasks: [{ id: 200, workspace_id: 1, project_id: 100, name: 'Design', active: true }],
+    tags: [{ id: 300, workspace_id: 1, name: 'meeting' }]
+  });
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const slowFetch: TogglFetch = async (url, init) => {
+    maxInFlight = Math.max(maxInFlight, ++inFlight);
+    await sleep(5);
+    try {
+      return await fake.fetch(url, init);
+    } finally {
+      inFlight--;
+    }
+  };
+  const cache = new CacheManager({ ttl: 60_000, maxSize: 1000, batchSize: 100, hydrationConcurrency: 2 });
+  cache.setAPI(new TogglAPI('test-token', { baseUrl: FAKE_TOGGL_BASE_URL, fetch: slowFetch }));
+
+  const entries: TimeEntry[] = Array.from({ length: 30 }, (_, i) => ({
+    id: 400 + i,
+    workspace_id: 1,
+    user_id: 1,
+    project_id: 100 + (i % 3),
+    task_id: i % 3 === 0 ? 200 : undefined,
+    tag_ids: [300],
+    start: '2026-10-01T09:00:00Z',
+    duration: 600
+  }));
+  const hydrated = await cache.hydrateTimeEntries(entries);
+
+  assert.deepEqual(fake.requests.map(r => r.path).sort(), [
+    '/api/v9/me',
+    '/api/v9/workspaces',
+    '/api/v9/workspaces/1/clients',
+    '/api/v9/workspaces/1/projects/100/tasks',
+    '/api/v9/workspaces/1/projects?active=both',
+    '/api/v9/workspaces/1/tags'
+  ]);
+  assert.equal(maxInFlight, 2);
+  assert.equal(cache.getStats().hydration.lastLookups, 7);
+  assert.deepEqual(
+    [hydrated[0].project_name, hydrated[0].client_name, hydrated[0].task_name, hydrated[0].tag_names],
+    ['P100', 'Globex', 'Design', ['meeting']]
+  );
+  assert.equal(hydrated[1].client_name, 'Initech');
+
+  // Everything is cached now
+  await cache.hydrateTimeEntries(entries);
+  assert.equal(fake.requests.length, 6);
+  assert.equal(cache.getStats().hydration.lastLookups, 0);
+});
@@ -9,8 +9,42 @@ import type {
   HydratedTimeEntry,
   CacheEntry,
   CacheStats,
-  CacheConfig
+  CacheConfig,
+  CacheEntityMap,
+  CacheEntityType,
+  CacheSyncResult,
+  HydrationStats
 } from './types.js';
+import { findByName, runWithConcurrency } from './utils.js';
+import { JsonFileCacheStore } from './cache-store.js';
+import type { PersistedCache, PersistedCacheEntry } from './cache-store.js';
+
+// Delay before writing changes to disk, so bursts of updates share one write
+const PERSIST_DEBOUNCE_MS = 1000;
+
+const ENTITY_TYPES: CacheEntityType[] = ['workspaces', 'projects', 'clients', 'tasks', 'users', 'tags'];
+
+// Default share of maxSize per entity type when no explicit limit is set.
+// Workspaces are few; projects and tasks dominate large accounts.
+const DEFAULT_LIMIT_WEIGHTS: Record<CacheEntityType, number> = {
+  workspaces: 0.02,
+  projects: 0.4,
+  clients: 0.12,
+  tasks: 0.26,
+  users: 0.08,
+  tags: 0.12
+};
+
+// Parallel API lookups while hydrating; the API client backs off on 429s
+const DEFAULT_HYDRATION_CONCURRENCY = 4;
+
+function emptyCounts(): Record<CacheEntityType, number> {
+  return { workspaces: 0, projects: 0, clients: 0, tasks: 0, users: 0, tags: 0 };
+}
+
+function emptyHydrationStats(): Omit<HydrationStats, 'averageMs'> {
+  return { runs: 0, entries: 0, totalMs: 0, lastMs: 0, lastEntries: 0, lastLookups: 0 };
+}
 
 export class CacheManager {
   private workspaces: Map<number, CacheEntry<Workspace>> = new Map();
@@ -24,20 +58,125 @@ export class CacheManager {
   private stats = {
     hits: 0,
     misses: 0,
+    evictions: emptyCounts(),
+    hydration: emptyHydrationStats(),
     lastReset: new Date()
   };
   
   private config: CacheConfig;
+  private limits: Record<CacheEntityType, number>;
   private api: any; // Will be set after API client is created
   
+  // Optional on-disk persistence
+  private store?: JsonFileCacheStore;
+  private saveTimer?: NodeJS.Timeout;
+  private restored = false;
+  
+  // Unix seconds of the last warm or delta sync; later syncs fetch only
+  // entities changed after this point
+  private lastSyncedAt?: number;
+  
+  // When each workspace's full project/client/tag list was last fetched,
+  // with the eviction count at the time (keyed "<type>:<workspaceId>")
+  private listed: Map<string, { at: number; evictions: number }> = new Map();
+  
   constructor(config: CacheConfig) {
     this.config = config;
+    this.limits = emptyCounts();
+    for (const type of ENTITY_TYPES) {
+      const limit = config.limits?.[type] ?? Math.floor(config.maxSize * DEFAULT_LIMIT_WEIGHTS[type]);
+      this.limits[type] = Math.max(1, limit);
+    }
+    if (config.persistDir) {
+      this.store = new JsonFileCacheStore(config.persistDir, config.persistKey);
+      this.restore();
+    }
   }
   
   setAPI(api: any): void {
     this.api = api;
   }
   
+  // Entity maps by type
+  private caches(): { [K in CacheEntityType]: Map<number, CacheEntry<CacheEntityMap[K]>> } {
+    return {
+      workspaces: this.workspaces,
+      projects: this.projects,
+      clients: this.clients,
+      tasks: this.tasks,
+      users: this.users,
+      tags: this.tags
+    };
+  }
+  
+  // Load unexpired entries written by a previous run
+  private restore(): void {
+    const snapshot = this.store?.load();
+    if (!snapshot) return;
+    
+    const caches: Record<string, Map<number, CacheEntry<unknown>>> = this.caches();
+    let count = 0;
+    for (const [type, entries] of Object.entries(snapshot.entries)) {
+      const cache = caches[type];
+      if (!cache) continue;
+      // Keep the most recently used entries when the file exceeds the limit
+      const limit = this.limits[type as CacheEntityType];
+      for (const [id, entry] of entries.slice(-limit)) {
+        const restoredEntry: CacheEntry<unknown> = {
+          data: entry.data,
+          timestamp: new Date(entry.timestamp),
+          ttl: entry.ttl
+        };
+        if (this.isValid(restoredEntry)) {
+          cache.set(id, restoredEntry);
+          count++;
+        }
+      }
+    }
+    
+    this.restored = count > 0;
+    if (this.restored) {
+      this.lastSyncedAt = snapshot.syncedAt;
+    }
+    console.error(`Restored ${count} cached entities from ${this.store!.path}`);
+  }
+  
+  // Write the cache to disk after a short delay
+  private scheduleSave(): void {
+    if (!this.store || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), PERSIST_DEBOUNCE_MS);
+    // Don't keep the process alive just to persist the cache
+    this.saveTimer.unref();
+  }
+  
+  // Write pending changes to disk immediately
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (!this.store) return;
+    
+    const caches: Record<string, Map<number, CacheEntry<unknown>>> = this.caches();
+    const entries: PersistedCache['entries'] = {};
+    // Map order is recency order, so restore keeps the most recently used
+    for (const [type, cache] of Object.entries(caches)) {
+      const valid: Array<[number, PersistedCacheEntry]> = [];
+      cache.forEach((entry, id) => {
+        if (this.isValid(entry)) {
+          valid.push([id, { data: entry.data, timestamp: entry.timestamp.getTime(), ttl: entry.ttl }]);
+        }
+      });
+      entries[type] = valid;
+    }
+    this.store.save(entries, this.lastSyncedAt);
+  }
+  
+  // Whether entities from a previous run were restored from disk
+  hasRestoredData(): boolean {
+    return this.restored;
+  }
+  
   // Check if cache entry is still valid
   private isValid<T>(entry?: CacheEntry<T>): boolean {
     if (!entry) return false;
@@ -45,11 +184,15 @@ export class CacheManager {
     return age < entry.ttl;
   }
   
-  // Generic cache getter
-  private getCached<T>(cache: Map<number, CacheEntry<T>>, id: number): T | null {
+  // Generic cache getter. Map iteration order doubles as recency order,
+  // so a hit re-inserts the entry to mark it most recently used.
+  private getCached<K extends CacheEntityType>(type: K, id: number): CacheEntityMap[K] | null {
+    const cache = this.caches()[type];
     const entry = cache.get(id);
     if (this.isValid(entry)) {
       this.stats.hits++;
+      cache.delete(id);
+      cache.set(id, entry!);
       return entry!.data;
     }
     this.stats.misses++;
@@ -57,13 +200,18 @@ export class CacheManager {
   }
   
   // Generic cache setter
-  private setCached<T>(cache: Map<number, CacheEntry<T>>, id: number, data: T): void {
-    // Enforce max cache size with LRU eviction
-    if (cache.size >= this.config.maxSize / 6) { // Divide by 6 for each cache type
-      const firstKey = cache.keys().next().value;
-      if (firstKey !== undefined) {
-        cache.delete(firstKey);
-      }
+  private setCached<K extends CacheEntityType>(type: K, id: number, data: CacheEntityMap[K]): void {
+    const cache = this.caches()[type];
+    
+    // Re-inserting moves an existing entry to the most recently used end
+    cache.delete(id);
+    
+    // Enforce the per-type limit by evicting least recently used entries
+    while (cache.size >= this.limits[type]) {
+      const oldestKey = cache.keys().next().value;
+      if (oldestKey === undefined) break;
+      cache.delete(oldestKey);
+      this.stats.evictions[type]++;
     }
     
     cache.set(id, {
@@ -71,12 +219,13 @@ export class CacheManager {
       timestamp: new Date(),
       ttl: this.config.ttl
     });
+    this.scheduleSave();
   }
   
   // Workspace methods
   async getWorkspace(id: number | undefined): Promise<Workspace | null> {
     if (!id) return null;
-    const cached = this.getCached(this.workspaces, id);
+    const cached = this.getCached('workspaces', id);
     if (cached) return cached;
     
     if (!this.api) return null;
@@ -84,7 +233,7 @@ export class CacheManager {
     try {
       const workspace = await this.api.getWorkspace(id);
       if (workspace) {
-        this.setCached(this.workspaces, id, workspace);
+        this.setCached('workspaces', id, workspace);
       }
       return workspace;
     } catch (error) {
@@ -100,7 +249,7 @@ export class CacheManager {
       const workspaces = await this.api.getWorkspaces();
       // Cache all fetched workspaces
       workspaces.forEach((ws: Workspace) => {
-        this.setCached(this.workspaces, ws.id, ws);
+        this.setCached('workspaces', ws.id, ws);
       });
       return workspaces;
     } catch (error) {
@@ -111,7 +260,7 @@ export class CacheManager {
   
   // Project methods
   async getProject(id: number, workspaceId?: number): Promise<Project | null> {
-    const cached = this.getCached(this.projects, id);
+    const cached = this.getCached('projects', id);
     if (cached) return cached;
 
     if (!this.api) return null;
@@ -119,7 +268,7 @@ export class CacheManager {
     try {
       const project = await this.api.getProject(id, workspaceId);
       if (project) {
-        this.setCached(this.projects, id, project);
+        this.setCached('projects', id, project);
       }
       return project;
     } catch (error) {
@@ -135,8 +284,9 @@ export class CacheManager {
       const projects = await this.api.getProjects(workspaceId);
       // Cache all fetched projects
       projects.forEach((proj: Project) => {
-        this.setCached(this.projects, proj.id, proj);
+        this.setCached('projects', proj.id, proj);
       });
+      this.markListed('projects', workspaceId);
       return projects;
     } catch (error) {
       console.error(`Failed to fetch projects for workspace ${workspaceId}:`, error);
@@ -146,7 +296,7 @@ export class CacheManager {
   
   // Client methods
   async getClient(id: number): Promise<Client | null> {
-    const cached = this.getCached(this.clients, id);
+    const cached = this.getCached('clients', id);
     if (cached) return cached;
     
     if (!this.api) return null;
@@ -154,7 +304,7 @@ export class CacheManager {
     try {
       const client = await this.api.getClient(id);
       if (client) {
-        this.setCached(this.clients, id, client);
+        this.setCached('clients', id, client);
       }
       return client;
     } catch (error) {
@@ -170,8 +320,9 @@ export class CacheManager {
       const clients = await this.api.getClients(workspaceId);
       // Cache all fetched clients
       clients.forEach((client: Client) => {
-        this.setCached(this.clients, client.id, client);
+        this.setCached('clients', client.id, client);
       });
+      this.markListed('clients', workspaceId);
       return clients;
     } catch (error) {
       console.error(`Failed to fetch clients for workspace ${workspaceId}:`, error);
@@ -181,7 +332,7 @@ export class CacheManager {
   
   // Task methods
   async getTask(id: number, workspaceId: number, projectId: number): Promise<Task | null> {
-    const cached = this.getCached(this.tasks, id);
+    const cached = this.getCached('tasks', id);
     if (cached) return cached;
     
     if (!this.api) return null;
@@ -189,7 +340,7 @@ export class CacheManager {
     try {
       const task = await this.api.getTask(workspaceId, projectId, id);
       if (task) {
-        this.setCached(this.tasks, id, task);
+        this.setCached('tasks', id, task);
       }
       return task;
     } catch (error) {
@@ -205,7 +356,7 @@ export class CacheManager {
       const tasks = await this.api.getTasks(workspaceId, projectId);
       // Cache all fetched tasks
       tasks.forEach((task: Task) => {
-        this.setCached(this.tasks, task.id, task);
+        this.setCached('tasks', task.id, task);
       });
       return tasks;
     } catch (error) {
@@ -215,16 +366,16 @@ export class CacheManager {
   }
   
   // User methods
-  async getUser(id: number): Promise<User | null> {
-    const cached = this.getCached(this.users, id);
+  async getUser(id: number, workspaceId?: number): Promise<User | null> {
+    const cached = this.getCached('users', id);
     if (cached) return cached;
     
     if (!this.api) return null;
     
     try {
-      const user = await this.api.getUser(id);
+      const user = await this.api.getUser(id, workspaceId);
       if (user) {
-        this.setCached(this.users, id, user);
+        this.setCached('users', id, user);
       }
       return user;
     } catch (error) {
@@ -233,9 +384,25 @@ export class CacheManager {
     }
   }
   
+  async getWorkspaceUsers(workspaceId: number): Promise<User[]> {
+    if (!this.api) return [];
+    
+    try {
+      const users = await this.api.getWorkspaceUsers(workspaceId);
+      // Cache all fetched users
+      users.forEach((user: User) => {
+        this.setCached('users', user.id, user);
+      });
+      return users;
+    } catch (error) {
+      console.error(`Failed to fetch users for workspace ${workspaceId}:`, error);
+      return [];
+    }
+  }
+  
   // Tag methods
   async getTag(id: number, workspaceId: number): Promise<Tag | null> {
-    const cached = this.getCached(this.tags, id);
+    const cached = this.getCached('tags', id);
     if (cached) return cached;
     
     if (!this.api) return null;
@@ -243,7 +410,7 @@ export class CacheManager {
     try {
       const tag = await this.api.getTag(workspaceId, id);
       if (tag) {
-        this.setCached(this.tags, id, tag);
+        this.setCached('tags', id, tag);
       }
       return tag;
     } catch (error) {
@@ -259,8 +426,9 @@ export class CacheManager {
       const tags = await this.api.getTags(workspaceId);
       // Cache all fetched tags
       tags.forEach((tag: Tag) => {
-        this.setCached(this.tags, tag.id, tag);
+        this.setCached('tags', tag.id, tag);
       });
+      this.markListed('tags', workspaceId);
       return tags;
     } catch (error) {
       console.error(`Failed to fetch tags for workspace ${workspaceId}:`, error);
@@ -268,11 +436,154 @@ export class CacheManager {
     }
   }
   
+  // A workspace's projects, clients or tags from the cache when its full list
+  // was fetched within the TTL and none of that type were evicted since,
+  // otherwise fetched again. Writes, deletes and delta syncs keep the cached
+  // list current in between.
+  async listProjects(workspaceId: number): Promise<Project[]> {
+    return this.listedValues('projects', workspaceId, () => this.getProjects(workspaceId));
+  }
+  
+  async listClients(workspaceId: number): Promise<Client[]> {
+    return this.listedValues('clients', workspaceId, () => this.getClients(workspaceId));
+  }
+  
+  async listTags(workspaceId: number): Promise<Tag[]> {
+    return this.listedValues('tags', workspaceId, () => this.getTags(workspaceId));
+  }
+  
+  private markListed(type: 'projects' | 'clients' | 'tags', workspaceId: number): void {
+    this.listed.set(`${type}:${workspaceId}`, { at: Date.now(), evictions: this.stats.evictions[type] });
+  }
+  
+  private async listedValues<K extends 'projects' | 'clients' | 'tags'>(
+    type: K,
+    workspaceId: number,
+    fetchAll: () => Promise<CacheEntityMap[K][]>
+  ): Promise<CacheEntityMap[K][]> {
+    const listed = this.listed.get(`${type}:${workspaceId}`);
+    const items = listed && Date.now() - listed.at < this.config.ttl && listed.evictions === this.stats.evictions[type]
+      ? this.cachedValues<CacheEntityMap[K]>(this.caches()[type], item => item.workspace_id === workspaceId)
+      : await fetchAll();
+    return [...items].sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  // Valid cached entities matching a predicate (does not count as hits/misses)
+  private cachedValues<T>(cache: Map<number, CacheEntry<T>>, predicate: (item: T) => boolean): T[] {
+    const values: T[] = [];
+    cache.forEach(entry => {
+      if (this.isValid(entry) && predicate(entry.data)) {
+        values.push(entry.data);
+      }
+    });
+    return values;
+  }
+  
+  // Resolve a name against cached entities first, refetching once on a miss
+  // so recently created entities are found too
+  private async resolveByName<T extends { id: number; name: string }>(
+    kind: string,
+    query: string,
+    scope: string,
+    cached: () => T[],
+    fetchAll: () => Promise<T[]>
+  ): Promise<T> {
+    let matches = findByName(cached(), query);
+    if (matches.length === 0) {
+      matches = findByName(await fetchAll(), query);
+    }
+    
+    if (matches.length === 1) return matches[0];
+    if (matches.length === 0) {
+      throw new Error(`No ${kind} matching "${query}"${scope}`);
+    }
+    
+    const candidates = matches
+      .slice(0, 10)
+      .map(m => `"${m.name}" (id ${m.id})`)
+      .join(', ');
+    const more = matches.length > 10 ? ` and ${matches.length - 10} more` : '';
+    throw new Error(
+      `Ambiguous ${kind} name "${query}"${scope} matches ${matches.length}: ${candidates}${more}. ` +
+      `Use the ${kind} ID or a more specific name.`
+    );
+  }
+  
+  async resolveWorkspace(name: string): Promise<Workspace> {
+    return this.resolveByName(
+      'workspace',
+      name,
+      '',
+      () => this.cachedValues(this.workspaces, () => true),
+      () => this.getWorkspaces()
+    );
+  }
+  
+  // Without a workspace, every accessible workspace is searched
+  async resolveProject(name: string, workspaceId?: number): Promise<Project> {
+    const inScope = (p: Project) => !workspaceId || p.workspace_id === workspaceId;
+    return this.resolveByName(
+      'project',
+      name,
+      workspaceId ? ` in workspace ${workspaceId}` : '',
+      () => this.cachedValues(this.projects, inScope),
+      async () => {
+        const workspaceIds = workspaceId ? [workspaceId] : (await this.getWorkspaces()).map(ws => ws.id);
+        const projects: Project[] = [];
+        for (const wid of workspaceIds) {
+          projects.push(...await this.getProjects(wid));
+        }
+        return projects.filter(inScope);
+      }
+    );
+  }
+  
+  async resolveClient(name: string, workspaceId?: number): Promise<Client> {
+    const inScope = (c: Client) => !workspaceId || c.workspace_id === workspaceId;
+    return this.resolveByName(
+      'client',
+      name,
+      workspaceId ? ` in workspace ${workspaceId}` : '',
+      () => this.cachedValues(this.clients, inScope),
+      async () => {
+        const workspaceIds = workspaceId ? [workspaceId] : (await this.getWorkspaces()).map(ws => ws.id);
+        const clients: Client[] = [];
+        for (const wid of workspaceIds) {
+          clients.push(...await this.getClients(wid));
+        }
+        return clients.filter(inScope);
+      }
+    );
+  }
+  
+  async resolveTask(name: string, workspaceId: number, projectId: number): Promise<Task> {
+    return this.resolveByName(
+      'task',
+      name,
+      ` in project ${projectId}`,
+      () => this.cachedValues(this.tasks, t => t.project_id === projectId),
+      () => this.getTasks(workspaceId, projectId)
+    );
+  }
+  
+  async resolveTag(name: string, workspaceId: number): Promise<Tag> {
+    return this.resolveByName(
+      'tag',
+      name,
+      ` in workspace ${workspaceId}`,
+      () => this.cachedValues(this.tags, t => t.workspace_id === workspaceId),
+      () => this.getTags(workspaceId)
+    );
+  }
+  
   // Warm cache by pre-fetching common entities
   async warmCache(workspaceId?: number): Promise<void> {
     // Log to stderr to avoid interfering with MCP stdio protocol
     console.error('Warming cache...');
     
+    // Changes made while warming are picked up by the next delta sync
+    const startedAt = Math.floor(Date.now() / 1000);
+    
     try {
       // Fetch all workspaces
       const workspaces = await this.getWorkspaces();
@@ -295,71 +606,236 @@ export class CacheManager {
         }
       }
       
+      this.lastSyncedAt = startedAt;
       console.error('Cache warmed successfully');
     } catch (error) {
       console.error('Failed to warm cache:', error);
     }
   }
   
-  // Hydrate time entries with cached names
-  async hydrateTimeEntries(entries: TimeEntry[]): Promise<HydratedTimeEntry[]> {
-    const hydrated: HydratedTimeEntry[] = [];
+  // Whether a delta sync is due (requires a previous warm or sync)
+  needsSync(): boolean {
+    const interval = this.config.syncInterval ?? 0;
+    if (this.lastSyncedAt === undefined || interval <= 0) return false;
+    return Date.now() - this.lastSyncedAt * 1000 >= interval;
+  }
+  
+  // Fetch only entities changed since the last sync and patch them into the
+  // cache. Returns null when there is nothing to sync against yet or the
+  // delta could not be fetched; callers should fall back to warmCache().
+  async syncChanges(): Promise<CacheSyncResult | null> {
+    if (!this.api || this.lastSyncedAt === undefined) return null;
     
-    // Collect unique IDs to batch fetch if needed
-    const workspaceIds = new Set<number>();
-    const projectEntries = new Map<number, number>(); // project_id -> workspace_id
-    const taskIds = new Set<{wid: number, pid: number, tid: number}>();
-
-    entries.forEach(entry => {
-      workspaceIds.add(entry.workspace_id);
-      if (entry.project_id) projectEntries.set(entry.project_id, entry.workspace_id);
-      if (entry.task_id && entry.project_id) {
-        taskIds.add({
-          wid: entry.workspace_id,
-          pid: entry.project_id,
-          tid: entry.task_id
-        });
+    const since = this.lastSyncedAt;
+    const startedAt = Math.floor(Date.now() / 1000);
+    
+    let changes: [Project[], Client[], Task[], Tag[]];
+    try {
+      changes = await Promise.all([
+        this.api.getProjectsChangedSince(since),
+        this.api.getClientsChangedSince(since),
+        this.api.getTasksChangedSince(since),
+        this.api.getTagsChangedSince(since)
+      ]);
+    } catch (error) {
+      console.error('Failed to sync cache changes:', error);
+      return null;
+    }
+    
+    const [projects, clients, tasks, tags] = changes;
+    const result: CacheSyncResult = {
+      since: new Date(since * 1000),
+      updated: { projects: 0, clients: 0, tasks: 0, tags: 0 },
+      removed: 0
+    };
+    
+    // Only entities in the delta get a new timestamp; everything else,
+    // including workspaces and users (which have no delta endpoint), still
+    // expires on its own TTL and is refetched
+    const apply = <K extends keyof CacheSyncResult['updated']>(type: K, items: CacheEntityMap[K][]) => {
+      for (const item of items) {
+        if (item.server_deleted_at) {
+          if (this.caches()[type].delete(item.id)) {
+            result.removed++;
+          }
+        } else {
+          this.setCached(type, item.id, item);
+          result.updated[type]++;
+        }
       }
-    });
-
-    // Pre-fetch missing projects sequentially to avoid rate limits
-    const projectsToFetch = Array.from(projectEntries.entries()).filter(([id]) => !this.projects.has(id));
-    if (projectsToFetch.length > 0 && this.api) {
-      console.error(`Fetching ${projectsToFetch.length} missing projects...`);
-      for (const [id, wid] of projectsToFetch) {
-        await this.getProject(id, wid);
+    };
+    apply('projects', projects);
+    apply('clients', clients);
+    apply('tasks', tasks);
+    apply('tags', tags);
+    
+    this.lastSyncedAt = startedAt;
+    this.scheduleSave();
+    return result;
+  }
+  
+  // Write-through after a mutation: store the entity the API returned
+  update<K extends CacheEntityType>(type: K, entity: CacheEntityMap[K]): void {
+    this.setCached(type, entity.id, entity);
+  }
+  
+  // Drop a single entity (e.g. after it was deleted)
+  invalidate(type: CacheEntityType, id: number): void {
+    if (this.caches()[type].delete(id)) {
+      this.scheduleSave();
+    }
+  }
+  
+  // Whether a valid entry is cached (does not count as a hit/miss or touch recency)
+  private has(type: CacheEntityType, id: number): boolean {
+    const cache: Map<number, CacheEntry<unknown>> = this.caches()[type];
+    return this.isValid(cache.get(id));
+  }
+  
+  // Load everything needed to hydrate the entries that isn't cached yet,
+  // preferring one list call per workspace/project over per-id lookups.
+  // Returns the number of API lookups made.
+  private async preloadForHydration(entries: TimeEntry[]): Promise<number> {
+    const concurrency = this.config.hydrationConcurrency ?? DEFAULT_HYDRATION_CONCURRENCY;
+    let lookups = 0;
+    const run = (jobs: Array<() => Promise<unknown>>) => {
+      lookups += jobs.length;
+      return runWithConcurrency(jobs, concurrency);
+    };
+    
+    // Collect unique missing IDs, keyed by id so duplicates collapse
+    const missingWorkspaces = new Set<number>();
+    const missingProjects = new Map<number, Set<number>>(); // workspace_id -> project ids
+    const missingTasks = new Map<string, { wid: number; pid: number; tids: Set<number> }>(); // "wid:pid" -> task ids
+    const missingUsers = new Map<number, Set<number>>(); // workspace_id -> user ids
+    const missingTagWorkspaces = new Set<number>();
+    const addTo = <K>(map: Map<K, Set<number>>, key: K, id: number) => {
+      if (!map.has(key)) map.set(key, new Set());
+      map.get(key)!.add(id);
+    };
+    
+    for (const entry of entries) {
+      const wid = entry.workspace_id;
+      if (!this.has('workspaces', wid)) missingWorkspaces.add(wid);
+      if (entry.project_id && !this.has('projects', entry.project_id)) {
+        addTo(missingProjects, wid, entry.project_id);
+      }
+      if (entry.task_id && entry.project_id && !this.has('tasks', entry.task_id)) {
+        const key = `${wid}:${entry.project_id}`;
+        if (!missingTasks.has(key)) missingTasks.set(key, { wid, pid: entry.project_id, tids: new Set() });
+        missingTasks.get(key)!.tids.add(entry.task_id);
       }
+      if (entry.user_id && !this.has('users', entry.user_id)) addTo(missingUsers, wid, entry.user_id);
+      if (entry.tag_ids?.some(id => !this.has('tags', id))) missingTagWorkspaces.add(wid);
     }
     
-    // Now hydrate each entry
+    // Projects first, since clients are only known once projects are loaded.
+    // List calls are paginated upstream, so fall back to direct lookups.
+    await run(Array.from(missingProjects, ([wid, ids]) => async () => {
+      await this.getProjects(wid);
+      for (const id of ids) {
+        if (!this.has('projects', id)) {
+          lookups++;
+          await this.getProject(id, wid);
+        }
+      }
+    }));
+    
+    const missingClientWorkspaces = new Set<number>();
     for (const entry of entries) {
+      if (!entry.project_id) continue;
+      const project = this.caches().projects.get(entry.project_id)?.data;
+      if (project?.client_id && !this.has('clients', project.client_id)) {
+        missingClientWorkspaces.add(project.workspace_id ?? entry.workspace_id);
+      }
+    }
+    
+    const jobs: Array<() => Promise<unknown>> = [];
+    if (missingWorkspaces.size > 0) {
+      jobs.push(async () => {
+        await this.getWorkspaces();
+        for (const id of missingWorkspaces) {
+          if (!this.has('workspaces', id)) {
+            lookups++;
+            await this.getWorkspace(id);
+          }
+        }
+      });
+    }
+    missingClientWorkspaces.forEach(wid => jobs.push(() => this.getClients(wid)));
+    missingTasks.forEach(({ wid, pid, tids }) => jobs.push(async () => {
+      await this.getTasks(wid, pid);
+      for (const id of tids) {
+        if (!this.has('tasks', id)) {
+          lookups++;
+          await this.getTask(id, wid, pid);
+        }
+      }
+    }));
+    missingUsers.forEach((ids, wid) => jobs.push(async () => {
+      // Member lists may need admin rights, so only worth it for several users
+      if (ids.size > 1) {
+        await this.getWorkspaceUsers(wid);
+      }
+      for (const id of ids) {
+        if (!this.has('users', id)) {
+          lookups++;
+          await this.getUser(id);
+        }
+      }
+    }));
+    missingTagWorkspaces.forEach(wid => jobs.push(() => this.getTags(wid)));
+    await run(jobs);
+    
+    return lookups;
+  }
+  
+  // Hydrate time entries with cached names
+  async hydrateTimeEntries(entries: TimeEntry[]): Promise<HydratedTimeEntry[]> {
+    const startedAt = Date.now();
+    const lookups = this.api ? await this.preloadForHydration(entries) : 0;
+    
+    const hydrated = entries.map(entry => {
       const hydEntry: HydratedTimeEntry = { ...entry } as HydratedTimeEntry;
       
       // Add workspace name
-      const workspace = await this.getWorkspace(entry.workspace_id);
+      const workspace = this.getCached('workspaces', entry.workspace_id);
       hydEntry.workspace_name = workspace?.name || `Workspace ${entry.workspace_id}`;
       
       // Add project name and client info
+      const project = entry.project_id ? this.getCached('projects', entry.project_id) : null;
       if (entry.project_id) {
-        const project = await this.getProject(entry.project_id, entry.workspace_id);
         hydEntry.project_name = project?.name || `Project ${entry.project_id}`;
         
         if (project?.client_id) {
           hydEntry.client_id = project.client_id;
-          const client = await this.getClient(project.client_id);
+          const client = this.getCached('clients', project.client_id);
           hydEntry.client_name = client?.name || `Client ${project.client_id}`;
         }
       }
       
+      // Billing rate: project rate first, then the workspace default. Fixed-fee
+      // projects are billed by their fee, so they don't fall back to hourly.
+      if (project?.fixed_fee) {
+        hydEntry.fixed_fee = project.fixed_fee;
+      }
+      if (project?.rate) {
+        hydEntry.hourly_rate = project.rate;
+        hydEntry.currency = project.currency || workspace?.default_currency || 'USD';
+      } else if (workspace?.default_hourly_rate && !project?.fixed_fee) {
+        hydEntry.hourly_rate = workspace.default_hourly_rate;
+        hydEntry.currency = workspace.default_currency || 'USD';
+      }
+      
       // Add task name
       if (entry.task_id && entry.project_id) {
-        const task = await this.getTask(entry.task_id, entry.workspace_id, entry.project_id);
+        const task = this.getCached('tasks', entry.task_id);
         hydEntry.task_name = task?.name || `Task ${entry.task_id}`;
       }
       
       // Add user name if available
       if (entry.user_id) {
-        const user = await this.getUser(entry.user_id);
+        const user = this.getCached('users', entry.user_id);
         hydEntry.user_name = user?.fullname || user?.email || `User ${entry.user_id}`;
       }
       
@@ -367,15 +843,25 @@ export class CacheManager {
       if (entry.tag_ids && entry.tag_ids.length > 0) {
         hydEntry.tag_names = [];
         for (const tagId of entry.tag_ids) {
-          const tag = await this.getTag(tagId, entry.workspace_id);
+          const tag = this.getCached('tags', tagId);
           if (tag) {
             hydEntry.tag_names.push(tag.name);
           }
         }
       }
       
-      hydrated.push(hydEntry);
-    }
+      return hydEntry;
+    });
+    
+    const elapsed = Date.now() - startedAt;
+    this.stats.hydration = {
+      runs: this.stats.hydration.runs + 1,
+      entries: this.stats.hydration.entries + entries.length,
+      totalMs: this.stats.hydration.totalMs + elapsed,
+      lastMs: elapsed,
+      lastEntries: entries.length,
+      lastLookups: lookups
+    };
     
     return hydrated;
   }
@@ -391,8 +877,18 @@ export class CacheManager {
     this.stats = {
       hits: 0,
       misses: 0,
+      evictions: emptyCounts(),
+      hydration: emptyHydrationStats(),
       lastReset: new Date()
     };
+    this.restored = false;
+    this.lastSyncedAt = undefined;
+    this.listed.clear();
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    this.store?.clear();
   }
   
   // Get cache statistics
@@ -406,7 +902,17 @@ export class CacheManager {
       tags: this.tags.size,
       hits: this.stats.hits,
       misses: this.stats.misses,
-      lastReset: this.stats.lastReset
+      lastReset: this.stats.lastReset,
+      limits: { ...this.limits },
+      evictions: { ...this.stats.evictions },
+      hydration: {
+        ...this.stats.hydration,
+        averageMs: this.stats.hydration.runs > 0
+          ? Math.round(this.stats.hydration.totalMs / this.stats.hydration.runs)
+          : 0
+      },
+      lastSync: this.lastSyncedAt !== undefined ? new Date(this.lastSyncedAt * 1000) : undefined,
+      persistPath: this.store?.path
     };
   }
   
@@ -428,5 +934,6 @@ export class CacheManager {
     prune(this.tasks);
     prune(this.users);
     prune(this.tags);
+    this.scheduleSave();
   }
 }
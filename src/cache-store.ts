@@ -0,0 +1,83 @@
+import { mkdirSync, readFileSync, writeFileSync, renameSync, rmSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { dirname, join } from 'node:path';
+
+// Bump whenever the shape of cached entities or the file layout changes;
+// files written by other versions are discarded on load.
+export const CACHE_SCHEMA_VERSION = 1;
+
+export interface PersistedCacheEntry<T = unknown> {
+  data: T;
+  timestamp: number;  // Epoch milliseconds
+  ttl: number;
+}
+
+export interface PersistedCache {
+  version: number;
+  savedAt: number;
+  syncedAt?: number;  // Unix seconds of the last delta sync
+  entries: Record<string, Array<[number, PersistedCacheEntry]>>;
+}
+
+// Cache file key for an account: one file per API token and endpoint, so a
+// token used against two servers never shares entities, and without putting
+// the token on disk
+export function cacheFileKey(apiKey: string, baseUrl: string): string {
+  return createHash('sha256').update(`${baseUrl}\n${apiKey}`).digest('hex').slice(0, 16);
+}
+
+// JSON file backend for CacheManager. Reads and writes are synchronous so a
+// final flush can run from a process 'exit' handler.
+export class JsonFileCacheStore {
+  readonly path: string;
+
+  constructor(dir: string, key = 'default') {
+    this.path = join(dir, `toggl-cache-${key}.json`);
+  }
+
+  load(): PersistedCache | null {
+    let raw: string;
+    try {
+      raw = readFileSync(this.path, 'utf8');
+    } catch {
+      return null;  // No cache file yet
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as PersistedCache;
+      if (parsed?.version !== CACHE_SCHEMA_VERSION || typeof parsed.entries !== 'object') {
+        console.error(`Discarding cache file ${this.path} (schema version ${parsed?.version}, expected ${CACHE_SCHEMA_VERSION})`);
+        this.clear();
+        return null;
+      }
+      return parsed;
+    } catch (error) {
+      console.error(`Discarding unreadable cache file ${this.path}:`, error);
+      this.clear();
+      return null;
+    }
+  }
+
+  save(entries: PersistedCache['entries'], syncedAt?: number): void {
+    const snapshot: PersistedCache = {
+      version: CACHE_SCHEMA_VERSION,
+      savedAt: Date.now(),
+      syncedAt,
+      entries
+    };
+
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      // Write to a temp file first so a crash never leaves a truncated cache
+      const tmpPath = `${this.path}.${process.pid}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify(snapshot), { mode: 0o600 });
+      renameSync(tmpPath, this.path);
+    } catch (error) {
+      console.error(`Failed to write cache file ${this.path}:`, error);
+    }
+  }
+
+  clear(): void {
+    rmSync(this.path, { force: true });
+  }
+}
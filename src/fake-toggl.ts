@@ -0,0 +1,733 @@
+import { createServer } from 'node:http';
+import type {
+  Organization,
+  Workspace,
+  Project,
+  Client,
+  Task,
+  User,
+  Tag,
+  TimeEntry,
+  ReportsDetailedRow,
+  ReportsSummaryGroup,
+  ReportsWeeklyRow,
+  TogglFetch,
+  TogglFetchInit,
+  TogglFetchResponse
+} from './types.js';
+
+// In-memory stand-in for the Toggl Track v9 and Reports v3 APIs.
+//
+// Use `fake.fetch` as the TogglAPI transport to stay in-process:
+//   const fake = new FakeToggl();
+//   const api = new TogglAPI('any-token', { baseUrl: FAKE_TOGGL_BASE_URL, fetch: fake.fetch });
+//
+// Or call `fake.listen()` and point TOGGL_API_BASE_URL at the returned
+// baseUrl to run the whole MCP server against it without network access.
+
+export const FAKE_TOGGL_BASE_URL = 'http://fake-toggl.local/api/v9';
+
+export interface FakeTogglSeed {
+  me?: Partial<User>;
+  users?: User[];  // Other workspace members, visible via /workspaces/:wid/users and reports
+  organizations?: Organization[];
+  workspaces?: Workspace[];
+  projects?: Project[];
+  clients?: Client[];
+  tasks?: Task[];
+  tags?: Tag[];
+  timeEntries?: TimeEntry[];
+  apiToken?: string;  // When set, requests authenticated with any other token get 403
+  timeEntriesHistoryDays?: number;  // /me/time_entries rejects start dates older than this (400)
+  timeEntriesPageLimit?: number;    // /me/time_entries returns at most this many (newest) entries
+}
+
+export interface FakeRequestLogEntry {
+  method: string;
+  path: string;
+  body?: any;
+}
+
+interface FakeResponse {
+  status: number;
+  body: string;
+  headers?: Record<string, string>;
+}
+
+interface FakeRequest {
+  method: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+}
+
+type FakeHandler = (req: FakeRequest) => FakeResponse;
+
+interface FakeRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: FakeHandler;
+}
+
+function json(data: unknown, status = 200): FakeResponse {
+  return { status, body: JSON.stringify(data), headers: { 'Content-Type': 'application/json' } };
+}
+
+function error(status: number, message: string): FakeResponse {
+  return { status, body: JSON.stringify(message) };
+}
+
+function noContent(): FakeResponse {
+  return { status: 204, body: '' };
+}
+
+function toFetchResponse(res: FakeResponse): TogglFetchResponse {
+  const headers = new Map(
+    Object.entries(res.headers ?? {}).map(([key, value]) => [key.toLowerCase(), value])
+  );
+  return {
+    ok: res.status >= 200 && res.status < 300,
+    status: res.status,
+    headers: { get: (name: string) => headers.get(name.toLowerCase()) ?? null },
+    text: async () => res.body,
+    json: async () => JSON.parse(res.body)
+  };
+}
+
+function headerValue(headers: Record<string, string | string[] | undefined>, name: string): string | undefined {
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name.toLowerCase());
+  const value = key ? headers[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function toUnixSeconds(iso: string): number {
+  return Math.floor(new Date(iso).getTime() / 1000);
+}
+
+export class FakeToggl {
+  me: User;
+  users: User[];
+  organizations: Organization[];
+  workspaces: Workspace[];
+  projects: Project[];
+  clients: Client[];
+  tasks: Task[];
+  tags: Tag[];
+  timeEntries: TimeEntry[];
+  requests: FakeRequestLogEntry[] = [];
+
+  private apiToken?: string;
+  private timeEntriesHistoryDays?: number;
+  private timeEntriesPageLimit?: number;
+  private nextId = 1000;
+  // Deleted entities, reported with server_deleted_at by the ?since= endpoints
+  private deleted: { tasks: Task[]; tags: Tag[] } = { tasks: [], tags: [] };
+  private trackRoutes: FakeRoute[] = [];
+  private reportsRoutes: FakeRoute[] = [];
+
+  constructor(seed: FakeTogglSeed = {}) {
+    this.organizations = seed.organizations ? [...seed.organizations] : [
+      { id: 1, name: 'Fake Organization', created_at: '2020-01-01T00:00:00Z' }
+    ];
+    this.workspaces = seed.workspaces ? [...seed.workspaces] : [
+      { id: 1, organization_id: 1, name: 'Fake Workspace', default_currency: 'USD', premium: false, admin: true }
+    ];
+    this.me = {
+      id: 1,
+      email: 'fake.user@example.com',
+      fullname: 'Fake User',
+      timezone: 'UTC',
+      beginning_of_week: 1,
+      default_workspace_id: this.workspaces[0]?.id,
+      ...seed.me
+    };
+    this.users = [...(seed.users ?? [])];
+    this.projects = [...(seed.projects ?? [])];
+    this.clients = [...(seed.clients ?? [])];
+    this.tasks = [...(seed.tasks ?? [])];
+    this.tags = [...(seed.tags ?? [])];
+    this.timeEntries = [...(seed.timeEntries ?? [])];
+    this.apiToken = seed.apiToken;
+    this.timeEntriesHistoryDays = seed.timeEntriesHistoryDays;
+    this.timeEntriesPageLimit = seed.timeEntriesPageLimit;
+
+    const seededIds = [
+      ...this.workspaces, ...this.projects, ...this.clients,
+      ...this.tasks, ...this.tags, ...this.timeEntries
+    ].map(e => e.id);
+    this.nextId = Math.max(this.nextId, ...seededIds) + 1;
+
+    this.registerTrackRoutes();
+    this.registerReportsRoutes();
+  }
+
+  // TogglFetch-compatible transport
+  fetch: TogglFetch = async (url: string, init: TogglFetchInit) => {
+    return toFetchResponse(this.handle(init.method, url, init.headers, init.body));
+  };
+
+  // Serve the fake over HTTP on localhost. Port 0 picks a free port.
+  async listen(port = 0, host = '127.0.0.1'): Promise<{ baseUrl: string; close: () => Promise<void> }> {
+    const server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const body = chunks.length > 0 ? Buffer.concat(chunks).toString('utf8') : undefined;
+        const result = this.handle(req.method || 'GET', req.url || '/', req.headers, body);
+        res.writeHead(result.status, result.headers);
+        res.end(result.body);
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(port, host, resolve));
+    const address = server.address();
+    const boundPort = typeof address === 'object' && address ? address.port : port;
+
+    return {
+      baseUrl: `http://${host}:${boundPort}/api/v9`,
+      close: () => new Promise<void>((resolve, reject) => {
+        server.close(err => (err ? reject(err) : resolve()));
+      })
+    };
+  }
+
+  // Dispatch a single request against the in-memory state
+  handle(
+    method: string,
+    url: string,
+    headers: Record<string, string | string[] | undefined> = {},
+    rawBody?: string
+  ): FakeResponse {
+    const parsed = new URL(url, 'http://fake-toggl.local');
+    let body: any;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : undefined;
+    } catch {
+      this.requests.push({ method, path: `${parsed.pathname}${parsed.search}`, body: rawBody });
+      return error(400, 'Invalid JSON body');
+    }
+    this.requests.push({ method, path: `${parsed.pathname}${parsed.search}`, body });
+
+    const authError = this.checkAuth(headerValue(headers, 'Authorization'));
+    if (authError) return authError;
+
+    if (parsed.pathname.startsWith('/api/v9/')) {
+      const path = parsed.pathname.slice('/api/v9'.length);
+      return this.dispatch(this.trackRoutes, method, path, parsed.searchParams, body);
+    }
+    if (parsed.pathname.startsWith('/reports/api/v3/')) {
+      const path = parsed.pathname.slice('/reports/api/v3'.length);
+      return this.dispatch(this.reportsRoutes, method, path, parsed.searchParams, body);
+    }
+
+    return error(404, `No fake route for ${method} ${parsed.pathname}`);
+  }
+
+  private checkAuth(authorization?: string): FakeResponse | null {
+    if (!authorization?.startsWith('Basic ')) {
+      return error(401, 'Missing basic auth credentials');
+    }
+    if (this.apiToken) {
+      const decoded = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf8');
+      const token = decoded.split(':')[0];
+      if (token !== this.apiToken) {
+        return error(403, 'Incorrect username and/or password');
+      }
+    }
+    return null;
+  }
+
+  private dispatch(
+    routes: FakeRoute[],
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    body: any
+  ): FakeResponse {
+    for (const route of routes) {
+      if (route.method !== method) continue;
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+      const params: Record<string, string> = {};
+      route.keys.forEach((key, i) => { params[key] = match[i + 1]; });
+      return route.handler({ method, params, query, body });
+    }
+    return error(404, `No fake route for ${method} ${path}`);
+  }
+
+  private route(routes: FakeRoute[], method: string, path: string, handler: FakeHandler): void {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+  }
+
+  private id(): number {
+    return this.nextId++;
+  }
+
+  private now(): string {
+    return new Date().toISOString();
+  }
+
+  private workspace(wid: string): Workspace | undefined {
+    return this.workspaces.find(w => w.id === Number(wid));
+  }
+
+  // Resolve tag names to ids, creating missing tags the way Toggl does
+  private ensureTags(workspaceId: number, names: string[]): number[] {
+    return names.map(name => {
+      let tag = this.tags.find(t => t.workspace_id === workspaceId && t.name === name);
+      if (!tag) {
+        tag = { id: this.id(), workspace_id: workspaceId, name, at: this.now() };
+        this.tags.push(tag);
+      }
+      return tag.id;
+    });
+  }
+
+  private tagNames(tagIds: number[]): string[] {
+    return tagIds
+      .map(id => this.tags.find(t => t.id === id)?.name)
+      .filter((name): name is string => Boolean(name));
+  }
+
+  private userName(userId: number): string {
+    if (userId === this.me.id) return this.me.fullname;
+    return this.users.find(u => u.id === userId)?.fullname ?? `User ${userId}`;
+  }
+
+  // Completed entries in a workspace matching Reports API v3 filters
+  private reportEntries(workspaceId: number, filters: any): TimeEntry[] {
+    const matches = (ids: (number | null)[] | undefined, value: number | undefined) =>
+      !ids || ids.includes(value ?? null);
+    const clientOf = (e: TimeEntry) => this.projects.find(p => p.id === e.project_id)?.client_id;
+    const day = (iso: string) => new Date(iso).toISOString().split('T')[0];
+
+    return this.timeEntries
+      .filter(e => e.workspace_id === workspaceId && e.duration >= 0)
+      .filter(e => !filters.start_date || day(e.start) >= filters.start_date)
+      .filter(e => !filters.end_date || day(e.start) <= filters.end_date)
+      .filter(e => !filters.user_ids || filters.user_ids.includes(e.user_id ?? this.me.id))
+      .filter(e => matches(filters.project_ids, e.project_id))
+      .filter(e => matches(filters.client_ids, clientOf(e)))
+      .filter(e => matches(filters.task_ids, e.task_id))
+      .filter(e => !filters.tag_ids || (e.tag_ids ?? []).some(id => filters.tag_ids.includes(id)) ||
+        (filters.tag_ids.includes(null) && (e.tag_ids ?? []).length === 0))
+      .filter(e => filters.billable === undefined || Boolean(e.billable) === filters.billable)
+      .filter(e => !filters.description ||
+        (e.description ?? '').toLowerCase().includes(String(filters.description).toLowerCase()))
+      .sort((a, b) => b.start.localeCompare(a.start));
+  }
+
+  private applyTimeEntryFields(entry: TimeEntry, fields: any): TimeEntry {
+    const updated: TimeEntry = { ...entry, ...fields, id: entry.id, workspace_id: entry.workspace_id };
+
+    if (fields.tags !== undefined) {
+      updated.tag_ids = this.ensureTags(entry.workspace_id, fields.tags);
+    } else if (fields.tag_ids !== undefined) {
+      updated.tags = this.tagNames(fields.tag_ids);
+    }
+
+    const startMs = new Date(updated.start).getTime();
+    if (fields.duration !== undefined && fields.duration < 0) {
+      // Running timer: Toggl stores the negative start epoch
+      updated.duration = -Math.floor(startMs / 1000);
+      delete updated.stop;
+    } else if (fields.stop !== undefined) {
+      updated.duration = Math.round((new Date(fields.stop).getTime() - startMs) / 1000);
+    } else if (fields.duration !== undefined) {
+      updated.stop = new Date(startMs + fields.duration * 1000).toISOString();
+    } else if (fields.start !== undefined && updated.stop) {
+      updated.duration = Math.round((new Date(updated.stop).getTime() - startMs) / 1000);
+    }
+
+    updated.at = this.now();
+    return updated;
+  }
+
+  private registerTrackRoutes(): void {
+    const r = this.trackRoutes;
+
+    // User
+    this.route(r, 'GET', '/me', () => json(this.me));
+
+    this.route(r, 'GET', '/organizations/:oid', ({ params }) => {
+      const organization = this.organizations.find(o => o.id === Number(params.oid));
+      return organization ? json(organization) : error(404, 'Organization not found');
+    });
+
+    // Workspaces
+    this.route(r, 'GET', '/workspaces', () => json(this.workspaces));
+    this.route(r, 'GET', '/workspaces/:wid', ({ params }) => {
+      const workspace = this.workspace(params.wid);
+      return workspace ? json(workspace) : error(404, 'Workspace not found');
+    });
+
+    this.route(r, 'GET', '/workspaces/:wid/users', ({ params }) => {
+      if (!this.workspace(params.wid)) return error(404, 'Workspace not found');
+      return json([this.me, ...this.users]);
+    });
+
+    // Projects
+    this.route(r, 'GET', '/workspaces/:wid/projects', ({ params, query }) => {
+      const active = query.get('active') || 'true';
+      const projects = this.projects.filter(p =>
+        p.workspace_id === Number(params.wid) &&
+        (active === 'both' || (p.active ?? true) === (active === 'true'))
+      );
+      return json(projects);
+    });
+    this.route(r, 'GET', '/workspaces/:wid/projects/:pid', ({ params }) => {
+      const project = this.projects.find(p =>
+        p.workspace_id === Number(params.wid) && p.id === Number(params.pid)
+      );
+      return project ? json(project) : error(404, 'Project not found');
+    });
+    this.route(r, 'POST', '/workspaces/:wid/projects', ({ params, body }) => {
+      if (!this.workspace(params.wid)) return error(404, 'Workspace not found');
+      if (!body?.name) return error(400, 'Project name must be present');
+      const project: Project = {
+        active: true,
+        is_private: false,
+        billable: false,
+        ...body,
+        id: this.id(),
+        workspace_id: Number(params.wid),
+        at: this.now(),
+        created_at: this.now()
+      };
+      this.projects.push(project);
+      return json(project);
+    });
+    this.route(r, 'PUT', '/workspaces/:wid/projects/:pid', ({ params, body }) => {
+      const index = this.projects.findIndex(p =>
+        p.workspace_id === Number(params.wid) && p.id === Number(params.pid)
+      );
+      if (index === -1) return error(404, 'Project not found');
+      this.projects[index] = { ...this.projects[index], ...body, at: this.now() };
+      return json(this.projects[index]);
+    });
+
+    // Clients
+    this.route(r, 'GET', '/workspaces/:wid/clients', ({ params }) => {
+      return json(this.clients.filter(c => c.workspace_id === Number(params.wid)));
+    });
+    this.route(r, 'GET', '/workspaces/:wid/clients/:cid', ({ params }) => {
+      const client = this.clients.find(c =>
+        c.workspace_id === Number(params.wid) && c.id === Number(params.cid)
+      );
+      return client ? json(client) : error(404, 'Client not found');
+    });
+    this.route(r, 'POST', '/workspaces/:wid/clients', ({ params, body }) => {
+      if (!this.workspace(params.wid)) return error(404, 'Workspace not found');
+      if (!body?.name) return error(400, 'Client name must be present');
+      const client: Client = {
+        id: this.id(),
+        workspace_id: Number(params.wid),
+        name: body.name,
+        notes: body.notes,
+        archived: false,
+        at: this.now()
+      };
+      this.clients.push(client);
+      return json(client);
+    });
+
+    // Tasks
+    this.route(r, 'GET', '/workspaces/:wid/projects/:pid/tasks', ({ params }) => {
+      return json(this.tasks.filter(t =>
+        t.workspace_id === Number(params.wid) && t.project_id === Number(params.pid)
+      ));
+    });
+    this.route(r, 'GET', '/workspaces/:wid/projects/:pid/tasks/:tid', ({ params }) => {
+      const task = this.tasks.find(t =>
+        t.workspace_id === Number(params.wid) &&
+        t.project_id === Number(params.pid) &&
+        t.id === Number(params.tid)
+      );
+      return task ? json(task) : error(404, 'Task not found');
+    });
+
+    this.route(r, 'POST', '/workspaces/:wid/projects/:pid/tasks', ({ params, body }) => {
+      const project = this.projects.find(p =>
+        p.workspace_id === Number(params.wid) && p.id === Number(params.pid)
+      );
+      if (!project) return error(404, 'Project not found');
+      if (!body?.name) return error(400, 'Task name must be present');
+      const task: Task = {
+        active: true,
+        tracked_seconds: 0,
+        ...body,
+        id: this.id(),
+        workspace_id: project.workspace_id,
+        project_id: project.id,
+        at: this.now()
+      };
+      this.tasks.push(task);
+      return json(task);
+    });
+    this.route(r, 'PUT', '/workspaces/:wid/projects/:pid/tasks/:tid', ({ params, body }) => {
+      const index = this.tasks.findIndex(t =>
+        t.workspace_id === Number(params.wid) &&
+        t.project_id === Number(params.pid) &&
+        t.id === Number(params.tid)
+      );
+      if (index === -1) return error(404, 'Task not found');
+      this.tasks[index] = { ...this.tasks[index], ...body, at: this.now() };
+      return json(this.tasks[index]);
+    });
+    this.route(r, 'DELETE', '/workspaces/:wid/projects/:pid/tasks/:tid', ({ params }) => {
+      const index = this.tasks.findIndex(t =>
+        t.workspace_id === Number(params.wid) &&
+        t.project_id === Number(params.pid) &&
+        t.id === Number(params.tid)
+      );
+      if (index === -1) return error(404, 'Task not found');
+      const [task] = this.tasks.splice(index, 1);
+      this.deleted.tasks.push({ ...task, at: this.now(), server_deleted_at: this.now() });
+      return noContent();
+    });
+
+    // Tags
+    this.route(r, 'GET', '/workspaces/:wid/tags', ({ params }) => {
+      return json(this.tags.filter(t => t.workspace_id === Number(params.wid)));
+    });
+    this.route(r, 'GET', '/workspaces/:wid/tags/:tid', ({ params }) => {
+      const tag = this.tags.find(t =>
+        t.workspace_id === Number(params.wid) && t.id === Number(params.tid)
+      );
+      return tag ? json(tag) : error(404, 'Tag not found');
+    });
+
+    this.route(r, 'POST', '/workspaces/:wid/tags', ({ params, body }) => {
+      if (!this.workspace(params.wid)) return error(404, 'Workspace not found');
+      if (!body?.name) return error(400, 'Tag name must be present');
+      if (this.tags.some(t => t.workspace_id === Number(params.wid) && t.name === body.name)) {
+        return error(400, 'Tag already exists');
+      }
+      const tag: Tag = { id: this.id(), workspace_id: Number(params.wid), name: body.name, at: this.now() };
+      this.tags.push(tag);
+      return json(tag);
+    });
+    this.route(r, 'PUT', '/workspaces/:wid/tags/:tid', ({ params, body }) => {
+      const tag = this.tags.find(t =>
+        t.workspace_id === Number(params.wid) && t.id === Number(params.tid)
+      );
+      if (!tag) return error(404, 'Tag not found');
+      tag.name = body?.name ?? tag.name;
+      tag.at = this.now();
+      // Entries reference tags by id; refresh their denormalized names
+      this.timeEntries.forEach(e => {
+        if (e.tag_ids?.includes(tag.id)) e.tags = this.tagNames(e.tag_ids);
+      });
+      return json(tag);
+    });
+    this.route(r, 'DELETE', '/workspaces/:wid/tags/:tid', ({ params }) => {
+      const index = this.tags.findIndex(t =>
+        t.workspace_id === Number(params.wid) && t.id === Number(params.tid)
+      );
+      if (index === -1) return error(404, 'Tag not found');
+      const [tag] = this.tags.splice(index, 1);
+      this.deleted.tags.push({ ...tag, at: this.now(), server_deleted_at: this.now() });
+      this.timeEntries.forEach(e => {
+        if (e.tag_ids?.includes(tag.id)) {
+          e.tag_ids = e.tag_ids.filter(id => id !== tag.id);
+          e.tags = this.tagNames(e.tag_ids);
+        }
+      });
+      return noContent();
+    });
+
+    // Entities changed since a Unix timestamp, across all workspaces
+    const changedSince = <T extends { at?: string }>(items: T[], since: string | null): T[] =>
+      items.filter(item => !since || (item.at !== undefined && toUnixSeconds(item.at) >= Number(since)));
+    this.route(r, 'GET', '/me/projects', ({ query }) => json(changedSince(this.projects, query.get('since'))));
+    this.route(r, 'GET', '/me/clients', ({ query }) => json(changedSince(this.clients, query.get('since'))));
+    this.route(r, 'GET', '/me/tasks', ({ query }) =>
+      json(changedSince([...this.tasks, ...this.deleted.tasks], query.get('since')))
+    );
+    this.route(r, 'GET', '/me/tags', ({ query }) =>
+      json(changedSince([...this.tags, ...this.deleted.tags], query.get('since')))
+    );
+
+    // Time entries (current user)
+    this.route(r, 'GET', '/me/time_entries', ({ query }) => {
+      const startDate = query.get('start_date');
+      const endDate = query.get('end_date');
+      const since = query.get('since');
+      const before = query.get('before');
+
+      if (startDate && this.timeEntriesHistoryDays !== undefined) {
+        const earliest = Date.now() - this.timeEntriesHistoryDays * 24 * 60 * 60 * 1000;
+        if (new Date(startDate).getTime() < earliest) {
+          return error(400, `start_date must not be earlier than ${new Date(earliest).toISOString().split('T')[0]}`);
+        }
+      }
+
+      const entries = this.timeEntries
+        .filter(e => (e.user_id ?? this.me.id) === this.me.id)
+        .filter(e => !startDate || new Date(e.start) >= new Date(startDate))
+        .filter(e => !endDate || new Date(e.start) < new Date(endDate))
+        .filter(e => !since || toUnixSeconds(e.at || e.start) >= Number(since))
+        .filter(e => !before || new Date(e.start) < new Date(before))
+        .sort((a, b) => b.start.localeCompare(a.start));
+      return json(entries.slice(0, this.timeEntriesPageLimit));
+    });
+    this.route(r, 'GET', '/me/time_entries/current', () => {
+      const running = this.timeEntries.find(e =>
+        (e.user_id ?? this.me.id) === this.me.id && e.duration < 0
+      );
+      return json(running ?? null);
+    });
+    this.route(r, 'GET', '/me/time_entries/:id', ({ params }) => {
+      const entry = this.timeEntries.find(e => e.id === Number(params.id));
+      return entry ? json(entry) : error(404, 'Time entry not found');
+    });
+    this.route(r, 'POST', '/workspaces/:wid/time_entries', ({ params, body }) => {
+      if (!this.workspace(params.wid)) return error(404, 'Workspace not found');
+      if (!body?.start) return error(400, 'Start time must be present');
+      if (body.duration < 0 && this.timeEntries.some(e => e.user_id === this.me.id && e.duration < 0)) {
+        // Toggl stops the previous timer when a new one starts
+        this.timeEntries = this.timeEntries.map(e =>
+          e.user_id === this.me.id && e.duration < 0
+            ? this.applyTimeEntryFields(e, { stop: body.start })
+            : e
+        );
+      }
+      const base: TimeEntry = {
+        id: this.id(),
+        workspace_id: Number(params.wid),
+        user_id: this.me.id,
+        start: body.start,
+        duration: 0,
+        billable: false,
+        tags: [],
+        tag_ids: []
+      };
+      const { created_with: _createdWith, workspace_id: _workspaceId, ...fields } = body;
+      const entry = this.applyTimeEntryFields(base, { tags: [], ...fields });
+      this.timeEntries.push(entry);
+      return json(entry);
+    });
+    this.route(r, 'PUT', '/workspaces/:wid/time_entries/:id', ({ params, body }) => {
+      const index = this.timeEntries.findIndex(e =>
+        e.workspace_id === Number(params.wid) && e.id === Number(params.id)
+      );
+      if (index === -1) return error(404, 'Time entry not found');
+      this.timeEntries[index] = this.applyTimeEntryFields(this.timeEntries[index], body ?? {});
+      return json(this.timeEntries[index]);
+    });
+    this.route(r, 'DELETE', '/workspaces/:wid/time_entries/:id', ({ params }) => {
+      const index = this.timeEntries.findIndex(e =>
+        e.workspace_id === Number(params.wid) && e.id === Number(params.id)
+      );
+      if (index === -1) return error(404, 'Time entry not found');
+      this.timeEntries.splice(index, 1);
+      return noContent();
+    });
+  }
+
+  private registerReportsRoutes(): void {
+    const r = this.reportsRoutes;
+
+    this.route(r, 'POST', '/workspace/:wid/search/time_entries', ({ params, body }) => {
+      const entries = this.reportEntries(Number(params.wid), body ?? {});
+      const pageSize = body?.page_size || 50;
+      const first = body?.first_row_number || 1;
+      const page = entries.slice(first - 1, first - 1 + pageSize);
+
+      const rows: ReportsDetailedRow[] = page.map((e, i) => {
+        const project = this.projects.find(p => p.id === e.project_id);
+        const rate = project?.rate;
+        return {
+          user_id: e.user_id ?? this.me.id,
+          username: this.userName(e.user_id ?? this.me.id),
+          project_id: e.project_id ?? null,
+          task_id: e.task_id ?? null,
+          billable: Boolean(e.billable),
+          description: e.description ?? '',
+          tag_ids: e.tag_ids ?? [],
+          billable_amount_in_cents: e.billable && rate ? Math.round((e.duration / 3600) * rate * 100) : null,
+          hourly_rate_in_cents: rate ? rate * 100 : null,
+          currency: project?.currency || 'USD',
+          time_entries: [{
+            id: e.id,
+            seconds: e.duration,
+            start: e.start,
+            stop: e.stop ?? e.start,
+            at: e.at ?? e.start
+          }],
+          row_number: first + i
+        };
+      });
+
+      const next = first - 1 + pageSize < entries.length ? first + pageSize : undefined;
+      const response = json(rows);
+      if (next) {
+        response.headers = { ...response.headers, 'X-Next-Row-Number': String(next) };
+      }
+      return response;
+    });
+
+    this.route(r, 'POST', '/workspace/:wid/summary/time_entries', ({ params, body }) => {
+      const entries = this.reportEntries(Number(params.wid), body ?? {});
+      const keyOf = (kind: string, e: TimeEntry): number | null => {
+        switch (kind) {
+          case 'clients': return this.projects.find(p => p.id === e.project_id)?.client_id ?? null;
+          case 'users': return e.user_id ?? this.me.id;
+          case 'tasks': return e.task_id ?? null;
+          default: return e.project_id ?? null;
+        }
+      };
+      const grouping = body?.grouping || 'projects';
+      const subGrouping = body?.sub_grouping || 'time_entries';
+
+      const groups = new Map<number | null, ReportsSummaryGroup>();
+      for (const e of entries) {
+        const groupId = keyOf(grouping, e);
+        if (!groups.has(groupId)) groups.set(groupId, { id: groupId, sub_groups: [] });
+        const group = groups.get(groupId)!;
+
+        const isTitle = subGrouping === 'time_entries';
+        const subId = isTitle ? null : keyOf(subGrouping, e);
+        const title = isTitle ? (e.description ?? '') : undefined;
+        let sub = group.sub_groups.find(sg => (isTitle ? sg.title === title : sg.id === subId));
+        if (!sub) {
+          sub = { id: subId, title, seconds: 0, ids: [] };
+          group.sub_groups.push(sub);
+        }
+        sub.seconds += e.duration;
+        if (body?.include_time_entry_ids) sub.ids!.push(e.id);
+      }
+
+      return json({ groups: Array.from(groups.values()) });
+    });
+
+    this.route(r, 'POST', '/workspace/:wid/weekly/time_entries', ({ params, body }) => {
+      const start = new Date(`${body?.start_date}T00:00:00Z`);
+      const end = new Date(start);
+      end.setUTCDate(end.getUTCDate() + 6);
+      const entries = this.reportEntries(Number(params.wid), {
+        ...body,
+        end_date: end.toISOString().split('T')[0]
+      });
+
+      const rows = new Map<string, ReportsWeeklyRow>();
+      for (const e of entries) {
+        const userId = e.user_id ?? this.me.id;
+        const key = `${userId}:${e.project_id ?? 'none'}`;
+        if (!rows.has(key)) {
+          rows.set(key, { user_id: userId, project_id: e.project_id ?? null, seconds: [0, 0, 0, 0, 0, 0, 0] });
+        }
+        const dayIndex = Math.floor((new Date(e.start).getTime() - start.getTime()) / 86400000);
+        rows.get(key)!.seconds[dayIndex] += e.duration;
+      }
+
+      return json(Array.from(rows.values()));
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { csvRow, renderTables } from './formatters.js';
+import type { Table } from './formatters.js';
+
+const table: Table = {
+  title: 'Projects',
+  columns: ['Project', 'Hours', 'Billable'],
+  rows: [
+    ['Website', 2.5, true],
+    ['Support | "Ops"', 1, false],
+    ['Empty', null, undefined]
+  ]
+};
+
+test('csv renders a title row per table, quotes per RFC 4180 and appends notes', () => {
+  const csv = renderTables([table, { title: 'Nothing', columns: ['A'], rows: [] }], 'csv', ['Data was limited']);
+  assert.equal(csv, [
+    'Projects',
+    'Project,Hours,Billable',
+    'Website,2.5,yes',
+    '"Support | ""Ops""",1,no',
+    'Empty,,',
+    '',
+    'Data was limited',
+    ''
+  ].join('\r\n'));
+});
+
+test('csv cells starting with a formula character get an apostrophe', () => {
+  assert.equal(csvRow(['=SUM(A1)', '+1', '-cmd', '@me', 'plain', -5]), "'=SUM(A1),'+1,'-cmd,'@me,plain,-5");
+  assert.equal(csvRow(['=HYPERLINK("x")']), `"'=HYPERLINK(""x"")"`);
+  assert.equal(csvRow(['line\nbreak']), '"line\nbreak"');
+});
+
+test('markdown right-aligns numeric columns and escapes pipes and newlines', () => {
+  const markdown = renderTables([{ ...table, rows: [...table.rows, ['Multi\nline', 3, true]] }], 'markdown', ['Note']);
+  assert.equal(markdown, [
+    '### Projects',
+    '',
+    '| Project | Hours | Billable |',
+    '| --- | ---: | --- |',
+    '| Website | 2.5 | yes |',
+    '| Support \\| "Ops" | 1 | no |',
+    '| Empty |  |  |',
+    '| Multi line | 3 | yes |',
+    '',
+    '> ⚠️ Note',
+    ''
+  ].join('\n'));
+});
+
+test('html escapes titles, cells and notes', () => {
+  const html = renderTables(
+    [{ title: 'R&D <Team>', columns: ['Name', 'Hours'], rows: [[`<script>alert('x')</script>`, 1.5]] }],
+    'html',
+    ['Limited to "50" entries']
+  );
+  assert.equal(html, [
+    '<h3>R&amp;D &lt;Team&gt;</h3>',
+    '<table>',
+    '  <thead><tr><th>Name</th><th style="text-align:right">Hours</th></tr></thead>',
+    '  <tbody>',
+    '    <tr><td>&lt;script&gt;alert(&#39;x&#39;)&lt;/script&gt;</td><td style="text-align:right">1.5</td></tr>',
+    '  </tbody>',
+    '</table>',
+    '<p><strong>⚠️</strong> Limited to &quot;50&quot; entries</p>',
+    ''
+  ].join('\n'));
+});
@@ -0,0 +1,355 @@
+import type {
+  BillableTotals,
+  ClientSummary,
+  DailyReport,
+  DayBreakdown,
+  DescriptionSummary,
+  PeriodComparison,
+  PeriodReport,
+  PivotNode,
+  PivotReport,
+  ProjectSummary,
+  ReportEntry,
+  TagSummary,
+  UserSummary,
+  WeekBreakdown,
+  WeeklyReport,
+  WorkspaceSummary
+} from './types.js';
+import { formatBillableAmounts } from './utils.js';
+
+export type TableFormat = 'csv' | 'markdown' | 'html';
+
+export const TABLE_FORMATS: TableFormat[] = ['csv', 'markdown', 'html'];
+
+export function isTableFormat(format: unknown): format is TableFormat {
+  return TABLE_FORMATS.includes(format as TableFormat);
+}
+
+export type Cell = string | number | boolean | null | undefined;
+
+export interface Table {
+  title: string;
+  columns: string[];
+  rows: Cell[][];
+}
+
+// Render tables (and trailing notes, e.g. data limitations) in one format.
+// CSV separates tables with a blank line and a title row so the output
+// still opens as a single sheet.
+export function renderTables(tables: Table[], format: TableFormat, notes: string[] = []): string {
+  const sections = tables.filter(table => table.rows.length > 0);
+  switch (format) {
+    case 'csv':
+      return [
+        ...sections.map(table => [
+          csvRow([table.title]),
+          csvRow(table.columns),
+          ...table.rows.map(csvRow)
+        ].join('\r\n')),
+        ...notes.map(note => csvRow([note]))
+      ].join('\r\n\r\n') + '\r\n';
+    case 'markdown':
+      return [
+        ...sections.map(markdownTable),
+        ...notes.map(note => `> ⚠️ ${note}`)
+      ].join('\n\n') + '\n';
+    case 'html':
+      return [
+        ...sections.map(htmlTable),
+        ...notes.map(note => `<p><strong>⚠️</strong> ${escapeHtml(note)}</p>`)
+      ].join('\n') + '\n';
+  }
+}
+
+function cellText(cell: Cell): string {
+  if (cell === null || cell === undefined) return '';
+  if (typeof cell === 'boolean') return cell ? 'yes' : 'no';
+  return String(cell);
+}
+
+// RFC 4180 quoting. Text starting with a formula character is prefixed with
+// an apostrophe so spreadsheets don't evaluate descriptions as formulas.
+export function csvRow(cells: Cell[]): string {
+  return cells.map(cell => {
+    let text = cellText(cell);
+    if (typeof cell === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',');
+}
+
+// Columns holding only numbers are right-aligned
+function numericColumns(table: Table): boolean[] {
+  return table.columns.map((_, i) => {
+    const values = table.rows.map(row => row[i]).filter(cell => cell !== null && cell !== undefined && cell !== '');
+    return values.length > 0 && values.every(cell => typeof cell === 'number');
+  });
+}
+
+function markdownTable(table: Table): string {
+  const escape = (cell: Cell) => cellText(cell).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  const numeric = numericColumns(table);
+  return [
+    `### ${table.title}`,
+    '',
+    `| ${table.columns.map(escape).join(' | ')} |`,
+    `| ${numeric.map(isNumeric => isNumeric ? '---:' : '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${row.map(escape).join(' | ')} |`)
+  ].join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function htmlTable(table: Table): string {
+  const numeric = numericColumns(table);
+  const cell = (tag: 'th' | 'td', value: Cell, i: number) =>
+    `<${tag}${numeric[i] ? ' style="text-align:right"' : ''}>${escapeHtml(cellText(value))}</${tag}>`;
+  return [
+    `<h3>${escapeHtml(table.title)}</h3>`,
+    '<table>',
+    `  <thead><tr>${table.columns.map((column, i) => cell('th', column, i)).join('')}</tr></thead>`,
+    '  <tbody>',
+    ...table.rows.map(row => `    <tr>${row.map((value, i) => cell('td', value, i)).join('')}</tr>`),
+    '  </tbody>',
+    '</table>'
+  ].join('\n');
+}
+
+// Amount and currency cells; mixed currencies are listed in the amount cell
+function amountCells(totals: BillableTotals): Cell[] {
+  if (totals.billable_amount !== undefined) return [totals.billable_amount, totals.currency];
+  return [totals.billable_amounts.length > 0 ? formatBillableAmounts(totals) : null, null];
+}
+
+// Amount columns only appear when some row has an amount
+function withAmounts<T extends BillableTotals>(
+  columns: string[],
+  items: T[],
+  cells: (item: T) => Cell[]
+): Pick<Table, 'columns' | 'rows'> {
+  const hasAmounts = items.some(item => item.billable_amounts.length > 0);
+  return {
+    columns: hasAmounts ? [...columns, 'Billable amount', 'Currency'] : columns,
+    rows: items.map(item => hasAmounts ? [...cells(item), ...amountCells(item)] : cells(item))
+  };
+}
+
+export function entryTable(entries: ReportEntry[], title = 'Time Entries'): Table {
+  return {
+    title,
+    columns: ['Start', 'Stop', 'Workspace', 'Project', 'Client', 'Task', 'Description', 'Tags', 'Hours', 'Billable'],
+    rows: entries.map(entry => [
+      entry.start,
+      entry.stop,
+      entry.workspace,
+      entry.project,
+      entry.client,
+      entry.task,
+      entry.description,
+      entry.tags?.join(', '),
+      entry.duration_hours,
+      entry.billable ?? false
+    ])
+  };
+}
+
+export function projectTable(projects: ProjectSummary[], title = 'Projects'): Table {
+  return {
+    title,
+    ...withAmounts(
+      ['Project', 'Client', 'Workspace', 'Hours', 'Billable hours', 'Entries'],
+      projects,
+      p => [p.project_name, p.client_name, p.workspace_name, p.total_hours, p.billable_hours, p.entry_count]
+    )
+  };
+}
+
+export function clientTable(clients: ClientSummary[], title = 'Clients'): Table {
+  return {
+    title,
+    ...withAmounts(
+      ['Client', 'Workspace', 'Hours', 'Billable hours', 'Projects', 'Entries'],
+      clients,
+      c => [c.client_name, c.workspace_name, c.total_hours, c.billable_hours, c.project_count, c.entry_count]
+    )
+  };
+}
+
+export function workspaceTable(workspaces: WorkspaceSummary[], title = 'Workspaces'): Table {
+  return {
+    title,
+    ...withAmounts(
+      ['Workspace', 'Hours', 'Billable hours', 'Projects', 'Entries'],
+      workspaces,
+      ws => [ws.workspace_name, ws.total_hours, ws.billable_hours, ws.project_count, ws.entry_count]
+    )
+  };
+}
+
+export function userTable(users: UserSummary[], title = 'Users'): Table {
+  return {
+    title,
+    ...withAmounts(
+      ['User', 'Hours', 'Billable hours', 'Projects', 'Entries'],
+      users,
+      u => [u.user_name, u.total_hours, u.billable_hours, u.project_count, u.entry_count]
+    )
+  };
+}
+
+export function tagTable(tags: TagSummary[], title = 'Tags'): Table {
+  return {
+    title,
+    ...withAmounts(
+      ['Tag', 'Hours', 'Billable hours', 'Entries'],
+      tags,
+      t => [t.tag_name, t.total_hours, t.billable_hours, t.entry_count]
+    )
+  };
+}
+
+export function descriptionTable(descriptions: DescriptionSummary[], title = 'Top Descriptions'): Table {
+  return {
+    title,
+    columns: ['Description', 'Projects', 'Hours', 'Entries'],
+    rows: descriptions.map(d => [d.description, d.projects.join(', '), d.total_hours, d.entry_count])
+  };
+}
+
+// Daily breakdown from a weekly report (DailyReport per day) or a period report
+export function dailyTable(days: Array<DailyReport | DayBreakdown>, title = 'Daily Breakdown'): Table {
+  return {
+    title,
+    columns: ['Date', 'Hours', 'Billable hours', 'Entries'],
+    rows: days.map(day => 'entries' in day
+      ? [day.date, day.total_hours, sumBillableHours(day.by_project), day.entries.length]
+      : [day.date, day.total_hours, day.billable_hours, day.entry_count])
+  };
+}
+
+function sumBillableHours(projects: ProjectSummary[]): number {
+  return Math.round(projects.reduce((t, p) => t + p.billable_seconds, 0) / 36) / 100;
+}
+
+export function weeklyTable(weeks: WeekBreakdown[], title = 'Weekly Breakdown'): Table {
+  return {
+    title,
+    ...withAmounts(
+      ['Week start', 'Week end', 'Hours', 'Billable hours', 'Entries'],
+      weeks,
+      w => [w.week_start, w.week_end, w.total_hours, w.billable_hours, w.entry_count]
+    )
+  };
+}
+
+export function comparisonTables(report: PeriodReport, comparison: PeriodComparison): Table[] {
+  return [
+    {
+      title: `Compared to ${comparison.previous_start} to ${comparison.previous_end}`,
+      columns: ['Metric', 'Previous', 'Current', 'Change', 'Change %'],
+      rows: [
+        ['Hours', comparison.previous_total_hours, report.total_hours, comparison.delta_hours, comparison.percent_change],
+        ['Billable hours', comparison.previous_billable_hours, report.billable_hours,
+          comparison.delta_billable_hours, comparison.billable_percent_change]
+      ]
+    },
+    {
+      title: 'Change by Project',
+      columns: ['Project', 'Client', 'Workspace', 'Previous hours', 'Current hours', 'Change', 'Change %'],
+      rows: comparison.by_project.map(p => [
+        p.project_name, p.client_name, p.workspace_name, p.previous_hours, p.current_hours, p.delta_hours, p.percent_change
+      ])
+    }
+  ];
+}
+
+// Every section of a daily, weekly or period report
+export function reportTables(report: DailyReport | WeeklyReport | PeriodReport): Table[] {
+  const tables: Table[] = [];
+
+  if ('period_start' in report) {
+    tables.push({
+      title: `Report ${report.period_start} to ${report.period_end}`,
+      ...withAmounts(
+        ['Start', 'End', 'Hours', 'Billable hours', 'Entries'],
+        [report],
+        r => [r.period_start, r.period_end, r.total_hours, r.billable_hours, r.entry_count]
+      )
+    });
+    tables.push(weeklyTable(report.weekly_breakdown), dailyTable(report.daily_breakdown));
+  } else if ('week_start' in report) {
+    tables.push({
+      title: `Weekly Report ${report.week_start} to ${report.week_end}`,
+      columns: ['Start', 'End', 'Hours'],
+      rows: [[report.week_start, report.week_end, report.total_hours]]
+    });
+    tables.push(dailyTable(report.daily_breakdown));
+  } else {
+    tables.push({
+      title: `Daily Report ${report.date}`,
+      columns: ['Date', 'Hours', 'Entries'],
+      rows: [[report.date, report.total_hours, report.entries.length]]
+    });
+  }
+
+  tables.push(
+    projectTable(report.by_project),
+    clientTable(report.by_client),
+    tagTable(report.by_tag),
+    workspaceTable(report.by_workspace)
+  );
+  if (report.by_user.length > 1) {
+    tables.push(userTable(report.by_user));
+  }
+  tables.push(descriptionTable(report.top_descriptions));
+  if ('entries' in report) {
+    tables.push(entryTable(report.entries));
+  }
+  if ('comparison' in report && report.comparison) {
+    tables.push(...comparisonTables(report, report.comparison));
+  }
+  return tables;
+}
+
+// Pivot tree flattened to one row per group: a column per dimension (blank
+// below the group's level) followed by the metrics
+export function pivotTable(report: PivotReport, title = 'Pivot'): Table {
+  const metricColumns: Array<[string, (node: PivotNode) => Cell[]]> = [];
+  if (report.metrics.includes('hours')) metricColumns.push(['Hours', node => [node.hours]]);
+  if (report.metrics.includes('billable_hours')) metricColumns.push(['Billable hours', node => [node.billable_hours]]);
+  if (report.metrics.includes('entry_count')) metricColumns.push(['Entries', node => [node.entry_count]]);
+
+  const hasAmounts = report.metrics.includes('amount');
+  const rows: Cell[][] = [];
+  const visit = (nodes: PivotNode[], path: string[]) => {
+    nodes.forEach(node => {
+      const keys = [...path, node.key];
+      rows.push([
+        ...report.dimensions.map((_, i) => keys[i] ?? null),
+        ...metricColumns.flatMap(([, cells]) => cells(node)),
+        ...(hasAmounts ? amountCells({ billable_amounts: [], ...node }) : [])
+      ]);
+      if (node.children) visit(node.children, keys);
+    });
+  };
+  visit(report.rows, []);
+
+  return {
+    title: `${title} ${report.period_start} to ${report.period_end}`,
+    columns: [
+      ...report.dimensions.map(d => d.charAt(0).toUpperCase() + d.slice(1)),
+      ...metricColumns.map(([column]) => column),
+      ...(hasAmounts ? ['Billable amount', 'Currency'] : [])
+    ],
+    rows
+  };
+}
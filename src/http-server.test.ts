@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { startHttpServer, type HttpServerOptions } from './http-server.js';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } }
+};
+
+async function listen(options: Partial<HttpServerOptions> = {}) {
+  const httpServer = await startHttpServer({
+    host: '127.0.0.1',
+    port: 0,
+    version: 'test',
+    createServer: () => new Server({ name: 'test', version: '0.0.0' }, { capabilities: {} }),
+    ...options
+  });
+  const { port } = httpServer.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+  const initialize = (headers: Record<string, string> = {}) => fetch(`${url}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(INITIALIZE)
+  });
+  const sessions = async () => ((await (await fetch(`${url}/health`)).json()) as { sessions: number }).sessions;
+  const close = () => new Promise<void>(resolve => {
+    httpServer.closeAllConnections();
+    httpServer.close(() => resolve());
+  });
+  return { initialize, sessions, close };
+}
+
+test('refuses to listen beyond loopback without a token', async () => {
+  await assert.rejects(listen({ host: '0.0.0.0' }), /TOGGL_MCP_TOKEN/);
+});
+
+test('requires the bearer token when one is set', async () => {
+  const server = await listen({ token: 'secret' });
+  try {
+    assert.equal((await server.initialize()).status, 401);
+    assert.equal((await server.initialize({ Authorization: 'Bearer wrong' })).status, 401);
+    const accepted = await server.initialize({ Authorization: 'Bearer secret' });
+    await accepted.text();
+    assert.equal(accepted.status, 200);
+  } finally {
+    await server.close();
+  }
+});
+
+test('closes sessions that stay idle', async () => {
+  const server = await listen({ sessionIdleTimeout: 50 });
+  try {
+    const response = await server.initialize();
+    await response.text();
+    assert.ok(response.headers.get('mcp-session-id'));
+    assert.equal(await server.sessions(), 1);
+
+    await sleep(150);
+    assert.equal(await server.sessions(), 0);
+  } finally {
+    await server.close();
+  }
+});
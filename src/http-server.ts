@@ -0,0 +1,202 @@
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer as createHttpServer, type IncomingMessage, type Server as HttpServer, type ServerResponse } from 'node:http';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export const MCP_PATH = '/mcp';
+export const HEALTH_PATH = '/health';
+
+// Request bodies larger than this are rejected before parsing
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Sessions without requests for this long are closed
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  version: string;
+  // Bearer token required on /mcp; mandatory unless listening on loopback
+  token?: string;
+  // Ms without requests before a session is closed (0 keeps sessions open)
+  sessionIdleTimeout?: number;
+  // A fresh MCP server for each session, so subscriptions stay per client
+  createServer: () => Server;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  // Requests still open, including GET event streams; the idle timer only
+  // runs while there are none
+  active: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new Error('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '::1', '[::1]']);
+
+// Browsers send an Origin header; when listening on loopback only accept pages
+// served from loopback, so a website can't drive the server (DNS rebinding)
+function isAllowedOrigin(req: IncomingMessage, host: string): boolean {
+  const origin = req.headers.origin;
+  if (!origin || !LOOPBACK_HOSTS.has(host)) return true;
+  try {
+    return LOOPBACK_HOSTS.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Compare digests so the check takes the same time for any wrong token
+function hasBearerToken(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+// Serve MCP over streamable HTTP at /mcp, with one transport and MCP server
+// per session, plus an unauthenticated /health endpoint
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServer> {
+  if (!options.token && !LOOPBACK_HOSTS.has(options.host)) {
+    throw new Error(
+      `Refusing to listen on ${options.host} without authentication. ` +
+      'Set TOGGL_MCP_TOKEN or listen on 127.0.0.1'
+    );
+  }
+
+  const sessions = new Map<string, Session>();
+  const startedAt = Date.now();
+  const idleTimeout = options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT;
+
+  // Closing the transport evicts the session through its onclose handler
+  const trackRequest = (session: Session, res: ServerResponse): void => {
+    clearTimeout(session.idleTimer);
+    session.active++;
+    res.once('close', () => {
+      session.active--;
+      if (session.active > 0 || idleTimeout <= 0) return;
+      session.idleTimer = setTimeout(() => { void session.transport.close(); }, idleTimeout);
+      session.idleTimer.unref();
+    });
+  };
+
+  const handleMcp = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendRpcError(res, 404, `Unknown session ${sessionId}`);
+        return;
+      }
+      trackRequest(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendRpcError(res, 400, 'Missing mcp-session-id header; start a session with an initialize request');
+      return;
+    }
+
+    const server = options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        const session: Session = { transport, server, active: 0 };
+        sessions.set(id, session);
+        trackRequest(session, res);
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        clearTimeout(sessions.get(transport.sessionId)?.idleTimer);
+        sessions.delete(transport.sessionId);
+      }
+      void server.close();
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (!isAllowedOrigin(req, options.host)) {
+      sendJson(res, 403, { error: 'Origin not allowed' });
+      return;
+    }
+
+    if (path === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, {
+        status: 'ok',
+        version: options.version,
+        sessions: sessions.size,
+        uptime_seconds: Math.floor((Date.now() - startedAt) / 1000)
+      });
+      return;
+    }
+
+    if (path !== MCP_PATH) {
+      sendJson(res, 404, { error: `Not found. MCP is served at ${MCP_PATH}` });
+      return;
+    }
+
+    if (options.token && !hasBearerToken(req, options.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+      return;
+    }
+
+    handleMcp(req, res).catch(error => {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendRpcError(res, 400, error instanceof Error ? error.message : 'Request failed');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  return httpServer;
+}
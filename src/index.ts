@@ -2,34 +2,143 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { config } from 'dotenv';
-import { TogglAPI } from './toggl-api.js';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { TogglAPI, TOGGL_HISTORY_START, detailedRowsToTimeEntries } from './toggl-api.js';
 import { CacheManager } from './cache-manager.js';
+import { cacheFileKey } from './cache-store.js';
+import {
+  DEFAULT_ACCOUNT,
+  collectProfiles,
+  loadProfilesFile,
+  parseProfiles,
+  type AccountProfile
+} from './accounts.js';
+import { DEFAULT_SESSION_IDLE_TIMEOUT, MCP_PATH, startHttpServer } from './http-server.js';
 import {
   getDateRange,
-  generateDailyReport,
-  generateWeeklyReport,
+  getDayRange,
+  getWeekRange,
+  getMonthRange,
+  getPreviousRange,
+  toZonedDate,
+  systemTimeZone,
+  defaultTimeZoneSettings,
+  isValidTimeZone,
+  comparePeriods,
   formatReportForDisplay,
+  createReportEntry,
   secondsToHours,
-  groupEntriesByProject,
-  groupEntriesByWorkspace,
-  generateProjectSummary,
-  generateWorkspaceSummary
+  summarizeBillableAmounts,
+  summarizeDescriptions,
+  TOP_DESCRIPTIONS_LIMIT,
+  UNTAGGED,
+  calculateTotalDuration
 } from './utils.js';
+import {
+  TABLE_FORMATS,
+  isTableFormat,
+  renderTables,
+  reportTables,
+  entryTable,
+  projectTable,
+  clientTable,
+  tagTable,
+  descriptionTable,
+  workspaceTable,
+  userTable,
+  pivotTable,
+  type Table
+} from './formatters.js';
+import {
+  PROMPTS,
+  endOfDayReviewPrompt,
+  fillGapsPrompt,
+  findTimelineGaps,
+  invoiceDraftPrompt,
+  standupPrompt
+} from './prompts.js';
+import {
+  RESOURCE_MIME_TYPE,
+  ACCOUNT_RESOURCE_TEMPLATES,
+  RESOURCE_TEMPLATES,
+  STATIC_RESOURCES,
+  TIMER_RESOURCE_URI,
+  parseResourceUri,
+  accountResources,
+  workspaceResources
+} from './resources.js';
+import {
+  TIMESHEET_FORMATS,
+  renderTimesheet,
+  timesheetFilename,
+  writeTimesheet
+} from './timesheet-export.js';
+import {
+  PIVOT_DIMENSIONS,
+  PIVOT_METRICS,
+  DEFAULT_PIVOT_METRICS,
+  buildPivot,
+  computeMetrics,
+  summarizeBy,
+  generateDailyReport,
+  generateWeeklyReport,
+  generatePeriodReport,
+  generateProjectSummary,
+  generateClientSummary,
+  generateTagSummary,
+  generateWorkspaceSummary,
+  generateUserSummary
+} from './aggregation.js';
 import type {
   CacheConfig,
-  TimeEntry
+  CacheEntityType,
+  TimeEntry,
+  HydratedTimeEntry,
+  Task,
+  UserSummary,
+  PeriodReport,
+  PivotDimension,
+  PivotMetric,
+  PivotReport,
+  TimesheetFormat,
+  ReportsFilters,
+  ReportsSummaryGrouping,
+  ReportsSummarySubGrouping,
+  UpdateTaskRequest,
+  DateRange,
+  TimeZoneSettings,
+  TimeEntriesResult,
+  DataLimitation
 } from './types.js';
 
 // Version for CLI output and server metadata
 const VERSION = '1.1.0';
 
-// Basic CLI flags: --help / -h and --version / -v
+// Basic CLI flags: --help / -h and --version / -v, plus transport options
 const argv = process.argv.slice(2);
+
+// Value of --name value or --name=value
+function flagValue(name: string): string | undefined {
+  const index = argv.indexOf(`--${name}`);
+  if (index >= 0) return argv[index + 1];
+  return argv.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
 if (argv.includes('--version') || argv.includes('-v')) {
   console.log(`mcp-toggl version ${VERSION}`);
   process.exit(0);
@@ -37,12 +146,36 @@ if (argv.includes('--version') || argv.includes('-v')) {
 if (argv.includes('--help') || argv.includes('-h')) {
   console.log(`mcp-toggl - Toggl MCP Server\n\n` +
 `Usage:\n` +
-`  npx @verygoodplugins/mcp-toggl@latest [--help] [--version]\n\n` +
+`  npx @verygoodplugins/mcp-toggl@latest [--help] [--version]\n` +
+`      [--transport stdio|http] [--host 127.0.0.1] [--port 3000]\n\n` +
+`Transport:\n` +
+`  --transport    stdio (default) or http for a shared local service (MCP at /mcp, GET /health)\n` +
+`  --host         Address to listen on in http mode (default: 127.0.0.1). Other addresses\n` +
+`                 require TOGGL_MCP_TOKEN\n` +
+`  --port         Port to listen on in http mode (default: 3000)\n\n` +
 `Environment:\n` +
-`  TOGGL_API_KEY                Required Toggl API token\n` +
+`  TOGGL_API_KEY                Required Toggl API token (optional when profiles are set)\n` +
 `  TOGGL_DEFAULT_WORKSPACE_ID   Optional default workspace id\n` +
+`  TOGGL_PROFILES               Extra named accounts, e.g. personal=<token>,acme=<token>\n` +
+`  TOGGL_PROFILES_FILE          JSON file of named accounts with api_key and default_workspace_id\n` +
+`  TOGGL_DEFAULT_ACCOUNT        Account used when a tool call names none (default: first configured)\n` +
 `  TOGGL_CACHE_TTL              Cache TTL in ms (default: 3600000)\n` +
-`  TOGGL_CACHE_SIZE             Max cached entities (default: 1000)\n\n` +
+`  TOGGL_CACHE_SIZE             Max cached entities (default: 1000)\n` +
+`  TOGGL_CACHE_LIMITS           Per-type cache caps, e.g. projects=5000,tasks=2000\n` +
+`  TOGGL_CACHE_SYNC_INTERVAL    Min ms between delta syncs of changed entities (default: 300000, 0 disables)\n` +
+`  TOGGL_HYDRATION_CONCURRENCY  Max parallel lookups when resolving names (default: 4)\n` +
+`  TOGGL_TIMEZONE               IANA time zone for periods and days (default: Toggl profile time zone)\n` +
+`  TOGGL_FISCAL_YEAR_START      First month (1-12) of the fiscal year for FY periods (default: 1)\n` +
+`  TOGGL_CACHE_DIR              Persist the cache to this directory across restarts\n` +
+`  TOGGL_EXPORT_DIR             Directory for toggl_export_timesheet files (default: ~/toggl-exports)\n` +
+`  TOGGL_TIMER_POLL_INTERVAL    Ms between running timer checks while subscribed (default: 0, disabled)\n` +
+`  TOGGL_API_BASE_URL           Track API base URL (default: https://api.track.toggl.com/api/v9)\n` +
+`  TOGGL_REPORTS_API_BASE_URL   Reports API base URL (default: derived from TOGGL_API_BASE_URL)\n` +
+`  TOGGL_MCP_TRANSPORT          Same as --transport\n` +
+`  TOGGL_MCP_HOST               Same as --host\n` +
+`  TOGGL_MCP_PORT               Same as --port\n` +
+`  TOGGL_MCP_TOKEN              Bearer token clients must send in http mode (required off loopback)\n` +
+`  TOGGL_MCP_SESSION_TIMEOUT    Ms before an idle http session is closed (default: 1800000, 0 disables)\n\n` +
 `Claude Desktop (claude_desktop_config.json):\n` +
 `  {\n` +
 `    "mcpServers": {\n` +
@@ -70,6 +203,27 @@ if (argv.includes('--help') || argv.includes('-h')) {
 // Load environment variables
 config();
 
+// Transport: stdio for a single client, or streamable HTTP for a shared service
+const transportMode = (flagValue('transport') || process.env.TOGGL_MCP_TRANSPORT || 'stdio').trim().toLowerCase();
+if (transportMode !== 'stdio' && transportMode !== 'http') {
+  console.error(`Unknown transport "${transportMode}". Use stdio or http`);
+  process.exit(1);
+}
+const httpHost = (flagValue('host') || process.env.TOGGL_MCP_HOST || '127.0.0.1').trim();
+const httpPort = parseInt(flagValue('port') || process.env.TOGGL_MCP_PORT || '3000');
+if (!Number.isInteger(httpPort) || httpPort < 0 || httpPort > 65535) {
+  console.error(`Invalid port "${flagValue('port') || process.env.TOGGL_MCP_PORT}"`);
+  process.exit(1);
+}
+const httpToken = process.env.TOGGL_MCP_TOKEN?.trim() || undefined;
+const httpSessionTimeout = process.env.TOGGL_MCP_SESSION_TIMEOUT
+  ? parseInt(process.env.TOGGL_MCP_SESSION_TIMEOUT)
+  : DEFAULT_SESSION_IDLE_TIMEOUT;
+if (!Number.isInteger(httpSessionTimeout) || httpSessionTimeout < 0) {
+  console.error(`Invalid TOGGL_MCP_SESSION_TIMEOUT "${process.env.TOGGL_MCP_SESSION_TIMEOUT}"`);
+  process.exit(1);
+}
+
 // Validate required environment variables
 // Support a few aliases for convenience/backward-compat
 const RAW_API_KEY =
@@ -79,9 +233,31 @@ const RAW_API_KEY =
 
 const API_KEY = RAW_API_KEY?.trim();
 
-if (!API_KEY) {
+// Extra named accounts, e.g. client-owned workspaces next to a personal one
+let profiles: AccountProfile[];
+try {
+  profiles = collectProfiles(
+    API_KEY
+      ? [{
+        name: DEFAULT_ACCOUNT,
+        apiKey: API_KEY,
+        defaultWorkspaceId: process.env.TOGGL_DEFAULT_WORKSPACE_ID
+          ? parseInt(process.env.TOGGL_DEFAULT_WORKSPACE_ID)
+          : undefined,
+        source: 'TOGGL_API_KEY'
+      }]
+      : [],
+    parseProfiles(process.env.TOGGL_PROFILES),
+    process.env.TOGGL_PROFILES_FILE?.trim() ? loadProfilesFile(process.env.TOGGL_PROFILES_FILE) : []
+  );
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+
+if (profiles.length === 0) {
   console.error('Missing required environment variable: TOGGL_API_KEY');
-  console.error('Also accepted: TOGGL_API_TOKEN or TOGGL_TOKEN');
+  console.error('Also accepted: TOGGL_API_TOKEN or TOGGL_TOKEN, or named accounts in TOGGL_PROFILES / TOGGL_PROFILES_FILE');
   process.exit(1);
 }
 
@@ -89,51 +265,404 @@ if (process.env.TOGGL_API_TOKEN || process.env.TOGGL_TOKEN) {
   console.warn('Using TOGGL_API_TOKEN/TOGGL_TOKEN. Prefer TOGGL_API_KEY going forward.');
 }
 
+// Parse per-type cache limits ("projects=5000,tasks=2000")
+const CACHE_ENTITY_TYPES: CacheEntityType[] = ['workspaces', 'projects', 'clients', 'tasks', 'users', 'tags'];
+function parseCacheLimits(spec: string | undefined): CacheConfig['limits'] {
+  if (!spec?.trim()) return undefined;
+  const limits: CacheConfig['limits'] = {};
+  for (const pair of spec.split(',')) {
+    const [type, value] = pair.split('=').map(part => part.trim());
+    const limit = parseInt(value);
+    if (!CACHE_ENTITY_TYPES.includes(type as CacheEntityType) || !(limit > 0)) {
+      console.error(`Ignoring invalid TOGGL_CACHE_LIMITS entry "${pair.trim()}" (expected <type>=<count>, type one of ${CACHE_ENTITY_TYPES.join(', ')})`);
+      continue;
+    }
+    limits[type as CacheEntityType] = limit;
+  }
+  return limits;
+}
+
 // Initialize configuration
 const cacheConfig: CacheConfig = {
   ttl: parseInt(process.env.TOGGL_CACHE_TTL || '3600000'),
   maxSize: parseInt(process.env.TOGGL_CACHE_SIZE || '1000'),
-  batchSize: parseInt(process.env.TOGGL_BATCH_SIZE || '100')
+  batchSize: parseInt(process.env.TOGGL_BATCH_SIZE || '100'),
+  limits: parseCacheLimits(process.env.TOGGL_CACHE_LIMITS),
+  syncInterval: parseInt(process.env.TOGGL_CACHE_SYNC_INTERVAL || '300000'),
+  hydrationConcurrency: parseInt(process.env.TOGGL_HYDRATION_CONCURRENCY || '4'),
+  persistDir: process.env.TOGGL_CACHE_DIR?.trim().replace(/^~(?=$|\/)/, homedir()) || undefined
 };
 
-const defaultWorkspaceId = process.env.TOGGL_DEFAULT_WORKSPACE_ID 
-  ? parseInt(process.env.TOGGL_DEFAULT_WORKSPACE_ID)
+// Optional time zone override (otherwise the Toggl profile's time zone)
+const timeZoneOverride = process.env.TOGGL_TIMEZONE?.trim() || undefined;
+if (timeZoneOverride && !isValidTimeZone(timeZoneOverride)) {
+  console.error(`Invalid TOGGL_TIMEZONE "${timeZoneOverride}" (expected an IANA name such as Europe/Berlin)`);
+  process.exit(1);
+}
+
+// Optional first month of the fiscal year (1-12) for "this fiscal year" / "FY2026"
+const fiscalYearStartMonth = process.env.TOGGL_FISCAL_YEAR_START
+  ? parseInt(process.env.TOGGL_FISCAL_YEAR_START)
   : undefined;
+if (fiscalYearStartMonth !== undefined && !(fiscalYearStartMonth >= 1 && fiscalYearStartMonth <= 12)) {
+  console.error(`Invalid TOGGL_FISCAL_YEAR_START "${process.env.TOGGL_FISCAL_YEAR_START}" (expected a month number, 1-12)`);
+  process.exit(1);
+}
+
+// Where toggl_export_timesheet writes files
+const exportDir = process.env.TOGGL_EXPORT_DIR?.trim().replace(/^~(?=$|\/)/, homedir())
+  || join(homedir(), 'toggl-exports');
+
+// How often to poll the running timer for subscribers, catching changes made
+// in the Toggl apps (0 disables; changes made through this server always notify)
+const timerPollInterval = parseInt(process.env.TOGGL_TIMER_POLL_INTERVAL || '0') || 0;
+
+// Optional API endpoint overrides (e.g. a local fake Toggl in CI)
+const apiBaseUrl = process.env.TOGGL_API_BASE_URL?.trim() || undefined;
+const reportsBaseUrl = process.env.TOGGL_REPORTS_API_BASE_URL?.trim() || undefined;
+
+// A Toggl account with its own API client, cache and profile settings
+interface Account {
+  name: string;
+  api: TogglAPI;
+  cache: CacheManager;
+  defaultWorkspaceId?: number;
+  source: AccountProfile['source'];
+  // Whether the cache has been warmed (a restored on-disk cache counts)
+  cacheWarmed: boolean;
+  timeZoneSettings?: Promise<TimeZoneSettings>;
+}
 
-// Initialize API and cache
-const api = new TogglAPI(API_KEY);
-const cache = new CacheManager(cacheConfig);
-cache.setAPI(api);
+function createAccount(profile: AccountProfile): Account {
+  const api = new TogglAPI(profile.apiKey, { baseUrl: apiBaseUrl, reportsBaseUrl });
+  const cache = new CacheManager({
+    ...cacheConfig,
+    persistKey: cacheFileKey(profile.apiKey, api.baseUrl)
+  });
+  cache.setAPI(api);
+  return {
+    name: profile.name,
+    api,
+    cache,
+    defaultWorkspaceId: profile.defaultWorkspaceId,
+    source: profile.source,
+    cacheWarmed: cache.hasRestoredData()
+  };
+}
+
+// Initialize an API client and cache per account
+const accounts = new Map(profiles.map(profile => [profile.name, createAccount(profile)]));
+
+const defaultAccountName = process.env.TOGGL_DEFAULT_ACCOUNT?.trim() || profiles[0].name;
+if (!accounts.has(defaultAccountName)) {
+  console.error(`TOGGL_DEFAULT_ACCOUNT "${defaultAccountName}" is not a configured account (${[...accounts.keys()].join(', ')})`);
+  process.exit(1);
+}
+const defaultAccount = accounts.get(defaultAccountName)!;
+
+// Account for a tool call's account argument (case-insensitive), or the default
+function getAccount(name: unknown): Account {
+  if (name === undefined || name === null || name === '') return defaultAccount;
+  const wanted = String(name).trim().toLowerCase();
+  const account = Array.from(accounts.values()).find(a => a.name.toLowerCase() === wanted);
+  if (!account) {
+    throw new Error(`Unknown account "${name}". Available: ${[...accounts.keys()].join(', ')}`);
+  }
+  return account;
+}
 
-// Track if cache has been warmed
-let cacheWarmed = false;
+// Persist pending cache writes on shutdown
+process.on('exit', () => accounts.forEach(account => account.cache.flush()));
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => process.exit(0));
+}
 
 // Helper to ensure cache is warm
-async function ensureCache(): Promise<void> {
-  if (!cacheWarmed) {
+async function ensureCache(account: Account): Promise<void> {
+  const { cache } = account;
+  if (!account.cacheWarmed) {
     try {
-      await cache.warmCache(defaultWorkspaceId);
-      cacheWarmed = true;
+      await cache.warmCache(account.defaultWorkspaceId);
+      account.cacheWarmed = true;
     } catch (error) {
       console.error('Failed to warm cache:', error);
     }
+    return;
+  }
+  
+  // Pick up changes made elsewhere (web app, other devices) without refetching everything
+  if (cache.needsSync()) {
+    await cache.syncChanges();
   }
 }
 
-// Create MCP server
-const server = new Server(
-  {
-    name: 'mcp-toggl',
-    version: VERSION,
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+// Calendar for period boundaries and day bucketing, loaded once per account
+// from the Toggl profile so "today" and week starts match Toggl's own UI
+function getTimeZoneSettings(account: Account): Promise<TimeZoneSettings> {
+  account.timeZoneSettings ??= account.api.getMe().then(
+    me => ({
+      timeZone: timeZoneOverride
+        || (me.timezone && isValidTimeZone(me.timezone) ? me.timezone : systemTimeZone()),
+      beginningOfWeek: me.beginning_of_week ?? 1,
+      fiscalYearStartMonth
+    }),
+    error => {
+      console.error('Failed to load profile time zone, using local time:', error);
+      account.timeZoneSettings = undefined;  // Retry on the next call
+      return {
+        ...defaultTimeZoneSettings(),
+        ...(timeZoneOverride ? { timeZone: timeZoneOverride } : {}),
+        fiscalYearStartMonth
+      };
+    }
+  );
+  return account.timeZoneSettings;
+}
+
+// A date argument as a day: YYYY-MM-DD or any period expression ("yesterday",
+// "last month"), taken as the first or last day of that period
+function parseDayArgument(
+  name: string,
+  value: unknown,
+  settings: TimeZoneSettings,
+  edge: 'first' | 'last'
+): string {
+  let range: DateRange;
+  try {
+    range = getDateRange(String(value), settings);
+  } catch (error) {
+    throw new Error(`Invalid ${name}: ${(error as Error).message}`);
+  }
+  return edge === 'first'
+    ? toZonedDate(range.start, settings.timeZone)
+    : toZonedDate(new Date(range.end.getTime() - 1), settings.timeZone);
+}
+
+// start_date/end_date as whole days (end inclusive), rejecting a reversed range.
+// A missing start is the end's day, a missing end is today.
+function parseDayRangeArguments(
+  args: Record<string, unknown>,
+  settings: TimeZoneSettings,
+  defaultEnd: string = toZonedDate(new Date(), settings.timeZone)
+): { startDay: string; endDay: string } {
+  const endDay = args.end_date ? parseDayArgument('end_date', args.end_date, settings, 'last') : defaultEnd;
+  const startDay = args.start_date
+    ? parseDayArgument('start_date', args.start_date, settings, 'first')
+    : parseDayArgument('end_date', args.end_date, settings, 'first');
+  if (endDay < startDay) {
+    throw new Error(`end_date (${endDay}) is before start_date (${startDay})`);
+  }
+  return { startDay, endDay };
+}
+
+// Resolve start_date/end_date (whole days, end inclusive) or a named period
+// to a range in the profile's time zone
+async function getRequestedRange(
+  account: Account,
+  args: Record<string, unknown> | undefined,
+  defaultPeriod: string
+): Promise<DateRange> {
+  const settings = await getTimeZoneSettings(account);
+  if (args?.start_date || args?.end_date) {
+    const { startDay, endDay } = parseDayRangeArguments(args, settings);
+    return getDayRange(startDay, endDay, settings.timeZone);
+  }
+  return getDateRange((args?.period as string | undefined) || defaultPeriod, settings);
+}
+
+// Fetch entries for a date range. With user_ids, entries for those workspace
+// members come from the Reports API instead of /me/time_entries.
+async function getEntriesForRange(
+  account: Account,
+  start: Date,
+  end: Date,
+  args: Record<string, unknown> | undefined
+): Promise<TimeEntriesResult> {
+  const { api, cache } = account;
+  const userIds = args?.user_ids as number[] | undefined;
+  if (!userIds || userIds.length === 0) {
+    return api.getTimeEntriesInRange(start, end);
+  }
+  
+  const workspaceIds = args?.workspace_id
+    ? [args.workspace_id as number]
+    : (await cache.getWorkspaces()).map(ws => ws.id);
+  
+  const entries: TimeEntry[] = [];
+  for (const workspaceId of workspaceIds) {
+    // Prime member names so hydration doesn't look users up one by one
+    await cache.getWorkspaceUsers(workspaceId);
+    const { timeZone } = await getTimeZoneSettings(account);
+    entries.push(...await api.getTeamTimeEntriesForDateRange(workspaceId, start, end, userIds, timeZone));
+  }
+  return { entries };
+}
+
+// First day a workspace can have entries for: its organization's creation
+// date, or the start of Toggl when that can't be read
+async function getHistoryStart(account: Account, workspaceId: number, timeZone: string): Promise<string> {
+  const workspace = await account.cache.getWorkspace(workspaceId);
+  if (!workspace?.organization_id) return TOGGL_HISTORY_START;
+  try {
+    const { created_at } = await account.api.getOrganization(workspace.organization_id);
+    return created_at ? toZonedDate(new Date(created_at), timeZone) : TOGGL_HISTORY_START;
+  } catch (error) {
+    console.error(`Failed to read organization ${workspace.organization_id}:`, error);
+    return TOGGL_HISTORY_START;
+  }
+}
+
+// Tool output fields flagging a range Toggl only partly returned, so totals
+// are never quietly incomplete
+function describeDataLimit(limited: DataLimitation | undefined): { data_limited?: Record<string, string> } {
+  if (!limited) return {};
+  const from = limited.start.split('T')[0];
+  const to = limited.end.split('T')[0];
+  return {
+    data_limited: {
+      missing_from: limited.start,
+      missing_until: limited.end,
+      reason: limited.reason,
+      message: `Toggl did not return time entries between ${from} and ${to}, so results exclude that period. ` +
+        'Use toggl_detailed_report (Reports API) for older history.'
+    }
+  };
+}
+
+// Text output variant of describeDataLimit
+function appendDataLimit(text: string, limited: DataLimitation | undefined): string {
+  const { data_limited } = describeDataLimit(limited);
+  return data_limited ? `${text}\n\n⚠️ ${data_limited.message}` : text;
+}
+
+// Tool output as JSON, or as tables for csv/markdown/html with any data
+// limitations listed after them
+function formatToolOutput(
+  json: object,
+  format: unknown,
+  tables: () => Table[],
+  ...limits: Array<DataLimitation | undefined>
+) {
+  const text = isTableFormat(format)
+    ? renderTables(tables(), format, limits.flatMap(limit => describeDataLimit(limit).data_limited?.message ?? []))
+    : JSON.stringify(json, null, 2);
+  return {
+    content: [{
+      type: 'text',
+      text
+    }]
+  };
+}
+
+// Per-user summaries sorted by total hours descending
+function summarizeByUser(entries: HydratedTimeEntry[]): UserSummary[] {
+  return summarizeBy(entries, 'user', group => generateUserSummary(group.key, group.entries));
+}
+
+// Period report for a range, compared with the previous equivalent period
+// unless compare is false
+async function buildPeriodReport(
+  account: Account,
+  range: DateRange,
+  args: Record<string, unknown> | undefined
+): Promise<{ report: PeriodReport; limited?: DataLimitation; previousLimited?: DataLimitation }> {
+  const { cache } = account;
+  const settings = await getTimeZoneSettings(account);
+  const { entries, limited } = await getEntriesForRange(account, range.start, range.end, args);
+  const report = generatePeriodReport(range.start, range.end, await cache.hydrateTimeEntries(entries), settings);
+  if (args?.compare === false) {
+    return { report, limited };
+  }
+  
+  const previousRange = getPreviousRange(range, settings.timeZone);
+  const previous = await getEntriesForRange(account, previousRange.start, previousRange.end, args);
+  const previousReport = generatePeriodReport(
+    previousRange.start,
+    previousRange.end,
+    await cache.hydrateTimeEntries(previous.entries),
+    settings
+  );
+  report.comparison = comparePeriods(report, previousReport);
+  return { report, limited, previousLimited: previous.limited };
+}
+
+// Period report JSON with data limits for both periods
+function periodReportOutput({ report, limited, previousLimited }: Awaited<ReturnType<typeof buildPeriodReport>>) {
+  return report.comparison
+    ? { ...report, ...describeDataLimit(limited), comparison: { ...report.comparison, ...describeDataLimit(previousLimited) } }
+    : { ...report, ...describeDataLimit(limited) };
+}
+
+// Tool output for a period report, flagging gaps in either period
+function renderPeriodReport(
+  built: Awaited<ReturnType<typeof buildPeriodReport>>,
+  format: unknown
+) {
+  const { report, limited, previousLimited } = built;
+  if (format === 'text') {
+    return {
+      content: [{
+        type: 'text',
+        text: appendDataLimit(appendDataLimit(formatReportForDisplay(report), limited), previousLimited)
+      }]
+    };
   }
-);
+  
+  return formatToolOutput(periodReportOutput(built), format, () => reportTables(report), limited, previousLimited);
+}
+
+// Task details with estimate vs. tracked progress
+function describeTask(task: Task) {
+  const tracked = task.tracked_seconds || 0;
+  const estimated = task.estimated_seconds || 0;
+  return {
+    id: task.id,
+    name: task.name,
+    project_id: task.project_id,
+    active: task.active,
+    user_id: task.user_id,
+    estimated_seconds: task.estimated_seconds ?? null,
+    tracked_seconds: tracked,
+    estimated_hours: estimated ? secondsToHours(estimated) : null,
+    tracked_hours: secondsToHours(tracked),
+    remaining_hours: estimated ? secondsToHours(Math.max(estimated - tracked, 0)) : null,
+    percent_complete: estimated ? Math.round((tracked / estimated) * 100) : null
+  };
+}
+
+// Resolve Reports API date filters (YYYY-MM-DD, end inclusive) from tool args
+async function getReportDates(
+  account: Account,
+  args: Record<string, unknown> | undefined
+): Promise<{ start_date: string; end_date: string }> {
+  const { timeZone } = await getTimeZoneSettings(account);
+  const range = await getRequestedRange(account, args, 'week');
+  // Range ends are exclusive midnights; step back a millisecond for the last day
+  return {
+    start_date: toZonedDate(range.start, timeZone),
+    end_date: toZonedDate(new Date(range.end.getTime() - 1), timeZone)
+  };
+}
+
+// Shared Reports API filters from tool args
+function getReportFilters(args: Record<string, unknown> | undefined): Omit<ReportsFilters, 'start_date' | 'end_date'> {
+  const filters: Omit<ReportsFilters, 'start_date' | 'end_date'> = {};
+  if (args?.user_ids) filters.user_ids = args.user_ids as number[];
+  if (args?.project_ids) filters.project_ids = args.project_ids as number[];
+  if (args?.client_ids) filters.client_ids = args.client_ids as number[];
+  if (args?.tag_ids) filters.tag_ids = args.tag_ids as number[];
+  if (args?.description) filters.description = args.description as string;
+  if (args?.billable !== undefined) filters.billable = args.billable as boolean;
+  return filters;
+}
 
 // Define tool schemas
+// Period expressions accepted by every report tool (parsed by getDateRange)
+const PERIOD_DESCRIPTION = 'Period, e.g. "today", "last week", "last 14 days", "previous 3 months", ' +
+  '"Q3 2026", "this year", "since 2026-09-01", "2026-09-01..2026-09-30", "this fiscal year" or "FY2026"';
+
+const FORMAT_DESCRIPTION = 'Output format (default: json). csv, markdown and html render tables for spreadsheets, chat and invoices';
+
 const tools: Tool[] = [
   // Health/authentication
   {
@@ -145,6 +674,15 @@ const tools: Tool[] = [
       required: []
     },
   },
+  {
+    name: 'toggl_list_accounts',
+    description: 'List the configured Toggl account profiles that tools can target with the account argument',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: []
+    },
+  },
   // Time tracking tools
   {
     name: 'toggl_get_time_entries',
@@ -154,16 +692,15 @@ const tools: Tool[] = [
       properties: {
         period: {
           type: 'string',
-          enum: ['today', 'yesterday', 'week', 'lastWeek', 'month', 'lastMonth'],
-          description: 'Predefined period to fetch entries for'
+          description: `${PERIOD_DESCRIPTION} (default: today)`
         },
         start_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD format)'
+          description: 'Start date (YYYY-MM-DD, or a period such as "last month" for its first day)'
         },
         end_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD format)'
+          description: 'End date, inclusive (YYYY-MM-DD, or a period for its last day)'
         },
         workspace_id: {
           type: 'number',
@@ -172,6 +709,11 @@ const tools: Tool[] = [
         project_id: {
           type: 'number',
           description: 'Filter by project ID'
+        },
+        format: {
+          type: 'string',
+          enum: ['json', ...TABLE_FORMATS],
+          description: FORMAT_DESCRIPTION
         }
       }
     },
@@ -253,12 +795,25 @@ const tools: Tool[] = [
       properties: {
         date: {
           type: 'string',
-          description: 'Date for report (YYYY-MM-DD format, defaults to today)'
+          description: 'Date for report (YYYY-MM-DD or a period such as "yesterday", defaults to today)'
+        },
+        period: {
+          type: 'string',
+          description: `${PERIOD_DESCRIPTION}. Overrides date; multi-day periods are combined into one report`
+        },
+        user_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Report on these workspace members (via the Reports API) instead of only yourself'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace to report on with user_ids (default: all workspaces)'
         },
         format: {
           type: 'string',
-          enum: ['json', 'text'],
-          description: 'Output format (default: json)'
+          enum: ['json', 'text', ...TABLE_FORMATS],
+          description: FORMAT_DESCRIPTION
         }
       }
     },
@@ -273,135 +828,543 @@ const tools: Tool[] = [
           type: 'number',
           description: 'Week offset from current week (0 = this week, -1 = last week)'
         },
+        period: {
+          type: 'string',
+          description: `${PERIOD_DESCRIPTION}. Overrides week_offset to report any range with a daily breakdown`
+        },
+        user_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Report on these workspace members (via the Reports API) instead of only yourself'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace to report on with user_ids (default: all workspaces)'
+        },
         format: {
           type: 'string',
-          enum: ['json', 'text'],
-          description: 'Output format (default: json)'
+          enum: ['json', 'text', ...TABLE_FORMATS],
+          description: FORMAT_DESCRIPTION
         }
       }
     },
   },
   {
-    name: 'toggl_project_summary',
-    description: 'Get total hours per project for a date range',
+    name: 'toggl_monthly_report',
+    description: 'Generate a monthly report with daily and weekly breakdowns, project summaries and a comparison with the previous month',
     inputSchema: {
       type: 'object',
       properties: {
-        period: {
-          type: 'string',
-          enum: ['week', 'lastWeek', 'month', 'lastMonth'],
-          description: 'Predefined period'
+        month_offset: {
+          type: 'number',
+          description: 'Month offset from current month (0 = this month, -1 = last month)'
         },
-        start_date: {
-          type: 'string',
-          description: 'Start date (YYYY-MM-DD format)'
+        compare: {
+          type: 'boolean',
+          description: 'Include a comparison with the previous month (default: true)'
         },
-        end_date: {
-          type: 'string',
-          description: 'End date (YYYY-MM-DD format)'
+        user_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Report on these workspace members (via the Reports API) instead of only yourself'
         },
         workspace_id: {
           type: 'number',
-          description: 'Filter by workspace ID'
+          description: 'Workspace to report on with user_ids (default: all workspaces)'
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'text', ...TABLE_FORMATS],
+          description: FORMAT_DESCRIPTION
         }
       }
     },
   },
   {
-    name: 'toggl_workspace_summary',
-    description: 'Get total hours per workspace for a date range',
+    name: 'toggl_range_report',
+    description: 'Generate a report for any period or date range with daily and weekly breakdowns and a comparison with the previous equivalent period',
     inputSchema: {
       type: 'object',
       properties: {
         period: {
           type: 'string',
-          enum: ['week', 'lastWeek', 'month', 'lastMonth'],
-          description: 'Predefined period'
+          description: `${PERIOD_DESCRIPTION} (default: month)`
         },
         start_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD format)'
+          description: 'Start date (YYYY-MM-DD, or a period such as "last month" for its first day)'
         },
         end_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD format)'
+          description: 'End date, inclusive (YYYY-MM-DD, or a period for its last day)'
+        },
+        compare: {
+          type: 'boolean',
+          description: 'Include a comparison with the previous equivalent period (default: true)'
+        },
+        user_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Report on these workspace members (via the Reports API) instead of only yourself'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace to report on with user_ids (default: all workspaces)'
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'text', ...TABLE_FORMATS],
+          description: FORMAT_DESCRIPTION
         }
       }
     },
   },
-  
-  // Management tools
-  {
-    name: 'toggl_list_workspaces',
-    description: 'List all available workspaces',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-      required: []
-    },
-  },
   {
-    name: 'toggl_list_projects',
-    description: 'List projects for a workspace',
+    name: 'toggl_project_summary',
+    description: 'Get total hours per project for a date range',
     inputSchema: {
       type: 'object',
       properties: {
+        period: {
+          type: 'string',
+          description: `${PERIOD_DESCRIPTION} (default: week)`
+        },
+        start_date: {
+          type: 'string',
+          description: 'Start date (YYYY-MM-DD, or a period such as "last month" for its first day)'
+        },
+        end_date: {
+          type: 'string',
+          description: 'End date, inclusive (YYYY-MM-DD, or a period for its last day)'
+        },
         workspace_id: {
           type: 'number',
-          description: 'Workspace ID (uses default if not provided)'
+          description: 'Filter by workspace ID'
+        },
+        user_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Report on these workspace members (via the Reports API) instead of only yourself'
+        },
+        format: {
+          type: 'string',
+          enum: ['json', ...TABLE_FORMATS],
+          description: FORMAT_DESCRIPTION
         }
       }
     },
   },
   {
-    name: 'toggl_list_clients',
-    description: 'List clients for a workspace',
+    name: 'toggl_client_summary',
+    description: 'Get total and billable hours per client across their projects for a date range',
     inputSchema: {
       type: 'object',
       properties: {
+        period: {
+          type: 'string',
+          description: `${PERIOD_DESCRIPTION} (default: week)`
+        },
+        start_date: {
+          type: 'string',
+          description: 'Start date (YYYY-MM-DD, or a period such as "last month" for its first day)'
+        },
+        end_date: {
+          type: 'string',
+          description: 'End date, inclusive (YYYY-MM-DD, or a period for its last day)'
+        },
+        client_id: {
+          type: 'number',
+          description: 'Only summarize this client'
+        },
         workspace_id: {
           type: 'number',
-          description: 'Workspace ID (uses default if not provided)'
+          description: 'Filter by workspace ID'
+        },
+        user_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Report on these workspace members (via the Reports API) instead of only yourself'
+        },
+        format: {
+          type: 'string',
+          enum: ['json', ...TABLE_FORMATS],
+          description: FORMAT_DESCRIPTION
         }
       }
     },
   },
-  
   {
-    name: 'toggl_create_client',
-    description: 'Create a new client in a workspace',
+    name: 'toggl_tag_summary',
+    description: 'Get total and billable hours per tag, with the top descriptions for each, for a date range',
     inputSchema: {
       type: 'object',
       properties: {
-        name: {
+        period: {
           type: 'string',
-          description: 'Client name'
+          description: `${PERIOD_DESCRIPTION} (default: week)`
+        },
+        start_date: {
+          type: 'string',
+          description: 'Start date (YYYY-MM-DD, or a period such as "last month" for its first day)'
+        },
+        end_date: {
+          type: 'string',
+          description: 'End date, inclusive (YYYY-MM-DD, or a period for its last day)'
+        },
+        tag_id: {
+          type: 'number',
+          description: 'Only summarize this tag'
         },
         workspace_id: {
           type: 'number',
-          description: 'Workspace ID (uses default if not provided)'
+          description: 'Filter by workspace ID'
         },
-        notes: {
+        top_descriptions: {
+          type: 'number',
+          description: `Descriptions to list per tag (default: ${TOP_DESCRIPTIONS_LIMIT})`
+        },
+        user_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Report on these workspace members (via the Reports API) instead of only yourself'
+        },
+        format: {
           type: 'string',
-          description: 'Notes about the client'
+          enum: ['json', ...TABLE_FORMATS],
+          description: FORMAT_DESCRIPTION
         }
-      },
-      required: ['name']
+      }
     },
   },
   {
-    name: 'toggl_create_project',
-    description: 'Create a new project in a workspace',
+    name: 'toggl_pivot_report',
+    description: 'Group time by an ordered list of dimensions (e.g. client > project > week) and return a nested tree of totals',
     inputSchema: {
       type: 'object',
       properties: {
-        name: {
+        dimensions: {
+          type: 'array',
+          items: { type: 'string', enum: PIVOT_DIMENSIONS },
+          description: 'Dimensions to group by, outermost first. Entries with several tags count toward each tag'
+        },
+        metrics: {
+          type: 'array',
+          items: { type: 'string', enum: PIVOT_METRICS },
+          description: `Metrics per group (default: ${DEFAULT_PIVOT_METRICS.join(', ')}). amount adds billable_amount per currency`
+        },
+        period: {
           type: 'string',
-          description: 'Project name'
+          description: `${PERIOD_DESCRIPTION} (default: week)`
+        },
+        start_date: {
+          type: 'string',
+          description: 'Start date (YYYY-MM-DD, or a period such as "last month" for its first day)'
+        },
+        end_date: {
+          type: 'string',
+          description: 'End date, inclusive (YYYY-MM-DD, or a period for its last day)'
         },
         workspace_id: {
           type: 'number',
-          description: 'Workspace ID (uses default if not provided)'
+          description: 'Filter by workspace ID'
+        },
+        user_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Report on these workspace members (via the Reports API) instead of only yourself'
+        },
+        format: {
+          type: 'string',
+          enum: ['json', ...TABLE_FORMATS],
+          description: FORMAT_DESCRIPTION
+        }
+      },
+      required: ['dimensions']
+    },
+  },
+  {
+    name: 'toggl_workspace_summary',
+    description: 'Get total hours per workspace for a date range',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        period: {
+          type: 'string',
+          description: `${PERIOD_DESCRIPTION} (default: week)`
+        },
+        start_date: {
+          type: 'string',
+          description: 'Start date (YYYY-MM-DD, or a period such as "last month" for its first day)'
+        },
+        end_date: {
+          type: 'string',
+          description: 'End date, inclusive (YYYY-MM-DD, or a period for its last day)'
+        },
+        user_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Report on these workspace members (via the Reports API) instead of only yourself'
+        },
+        format: {
+          type: 'string',
+          enum: ['json', ...TABLE_FORMATS],
+          description: FORMAT_DESCRIPTION
+        }
+      }
+    },
+  },
+  
+  {
+    name: 'toggl_detailed_report',
+    description: 'Query the Reports API for detailed time entries across all workspace members, with filters',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        },
+        period: {
+          type: 'string',
+          description: `${PERIOD_DESCRIPTION} (default: week)`
+        },
+        start_date: {
+          type: 'string',
+          description: 'Start date (YYYY-MM-DD, or a period such as "last month" for its first day)'
+        },
+        end_date: {
+          type: 'string',
+          description: 'End date, inclusive (YYYY-MM-DD, or a period for its last day)'
+        },
+        user_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Only include entries from these users'
+        },
+        project_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Only include entries for these projects'
+        },
+        client_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Only include entries for these clients'
+        },
+        tag_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Only include entries with any of these tags'
+        },
+        description: {
+          type: 'string',
+          description: 'Only include entries whose description contains this text'
+        },
+        billable: {
+          type: 'boolean',
+          description: 'Only include billable (true) or non-billable (false) entries'
+        },
+        format: {
+          type: 'string',
+          enum: ['json', ...TABLE_FORMATS],
+          description: FORMAT_DESCRIPTION
+        }
+      }
+    },
+  },
+  {
+    name: 'toggl_summary_report',
+    description: 'Query the Reports API for workspace-wide totals grouped by project, client or user',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        },
+        period: {
+          type: 'string',
+          description: `${PERIOD_DESCRIPTION} (default: week)`
+        },
+        start_date: {
+          type: 'string',
+          description: 'Start date (YYYY-MM-DD, or a period such as "last month" for its first day)'
+        },
+        end_date: {
+          type: 'string',
+          description: 'End date, inclusive (YYYY-MM-DD, or a period for its last day)'
+        },
+        grouping: {
+          type: 'string',
+          enum: ['projects', 'clients', 'users'],
+          description: 'Top-level grouping (default: projects)'
+        },
+        sub_grouping: {
+          type: 'string',
+          enum: ['time_entries', 'tasks', 'projects', 'clients', 'users'],
+          description: 'Second-level grouping (default: time_entries, i.e. by description)'
+        },
+        user_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Only include entries from these users'
+        },
+        project_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Only include entries for these projects'
+        },
+        client_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Only include entries for these clients'
+        },
+        billable: {
+          type: 'boolean',
+          description: 'Only include billable (true) or non-billable (false) entries'
+        },
+        format: {
+          type: 'string',
+          enum: ['json', ...TABLE_FORMATS],
+          description: FORMAT_DESCRIPTION
+        }
+      }
+    },
+  },
+  {
+    name: 'toggl_export_timesheet',
+    description: 'Write time entries for a date range to a CSV, Excel-friendly CSV, JSON or iCalendar file in the export directory and return its path and SHA-256 checksum',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        period: {
+          type: 'string',
+          description: `${PERIOD_DESCRIPTION} (default: last month)`
+        },
+        start_date: {
+          type: 'string',
+          description: 'Start date (YYYY-MM-DD, or a period such as "last month" for its first day)'
+        },
+        end_date: {
+          type: 'string',
+          description: 'End date, inclusive (YYYY-MM-DD, or a period for its last day)'
+        },
+        format: {
+          type: 'string',
+          enum: TIMESHEET_FORMATS,
+          description: 'File format (default: csv). xlsx-csv adds a byte order mark so Excel opens it as UTF-8; ics creates one calendar event per entry'
+        },
+        filename: {
+          type: 'string',
+          description: 'File name inside the export directory (default: toggl-timesheet-<start>_<end>). An existing file with this name is replaced'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Filter by workspace ID'
+        },
+        project_id: {
+          type: 'number',
+          description: 'Filter by project ID'
+        },
+        client_id: {
+          type: 'number',
+          description: 'Filter by client ID'
+        },
+        user_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Export these workspace members (via the Reports API) instead of only yourself'
+        }
+      }
+    },
+  },
+  
+  // Management tools
+  {
+    name: 'toggl_list_workspaces',
+    description: 'List all available workspaces',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: []
+    },
+  },
+  {
+    name: 'toggl_list_projects',
+    description: 'List projects for a workspace',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        }
+      }
+    },
+  },
+  {
+    name: 'toggl_list_clients',
+    description: 'List clients for a workspace',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        }
+      }
+    },
+  },
+  
+  {
+    name: 'toggl_list_users',
+    description: 'List members of a workspace (use their ids as user_ids in reports)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        }
+      }
+    },
+  },
+  
+  {
+    name: 'toggl_create_client',
+    description: 'Create a new client in a workspace',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Client name'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        },
+        notes: {
+          type: 'string',
+          description: 'Notes about the client'
+        }
+      },
+      required: ['name']
+    },
+  },
+  {
+    name: 'toggl_create_project',
+    description: 'Create a new project in a workspace',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Project name'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
         },
         client_id: {
           type: 'number',
@@ -547,50 +1510,371 @@ const tools: Tool[] = [
     },
   },
 
-  // Cache management
+  // Tag management
   {
-    name: 'toggl_warm_cache',
-    description: 'Pre-fetch and cache workspace, project, and client data for better performance',
+    name: 'toggl_list_tags',
+    description: 'List tags for a workspace',
     inputSchema: {
       type: 'object',
       properties: {
         workspace_id: {
           type: 'number',
-          description: 'Specific workspace to warm cache for'
+          description: 'Workspace ID (uses default if not provided)'
         }
       }
     },
   },
   {
-    name: 'toggl_cache_stats',
-    description: 'Get cache statistics and performance metrics',
+    name: 'toggl_create_tag',
+    description: 'Create a new tag in a workspace',
     inputSchema: {
       type: 'object',
-      properties: {},
-      required: []
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Tag name'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        }
+      },
+      required: ['name']
     },
   },
   {
-    name: 'toggl_clear_cache',
-    description: 'Clear all cached data',
+    name: 'toggl_update_tag',
+    description: 'Rename a tag (existing time entries keep the tag under its new name)',
     inputSchema: {
       type: 'object',
-      properties: {},
-      required: []
-    },
-  }
-];
-
-// Handle tool listing
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
-
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  
+      properties: {
+        tag_id: {
+          type: 'number',
+          description: 'Tag ID to rename'
+        },
+        name: {
+          type: 'string',
+          description: 'New tag name'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        }
+      },
+      required: ['tag_id', 'name']
+    },
+  },
+  {
+    name: 'toggl_delete_tag',
+    description: 'Delete a tag (Toggl removes it from all time entries)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tag_id: {
+          type: 'number',
+          description: 'Tag ID to delete'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        }
+      },
+      required: ['tag_id']
+    },
+  },
+  {
+    name: 'toggl_merge_tags',
+    description: 'Merge one tag into another: rewrites every workspace member\'s time entries from the source tag to the target tag, optionally deleting the source tag afterwards',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        source_tag_id: {
+          type: 'number',
+          description: 'Tag ID to merge away'
+        },
+        target_tag_id: {
+          type: 'number',
+          description: 'Tag ID to keep'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        },
+        start_date: {
+          type: 'string',
+          description: 'Rewrite entries from this date (YYYY-MM-DD format, default: full history from the organization\'s creation date)'
+        },
+        end_date: {
+          type: 'string',
+          description: 'Rewrite entries up to this date (YYYY-MM-DD format, default: today)'
+        },
+        delete_source: {
+          type: 'boolean',
+          description: 'Delete the source tag once every entry has been rewritten (default: false; needs the full history, so not allowed with start_date or end_date)'
+        }
+      },
+      required: ['source_tag_id', 'target_tag_id']
+    },
+  },
+
+  // Task management
+  {
+    name: 'toggl_list_tasks',
+    description: 'List tasks for a project with estimate vs. tracked progress',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project_id: {
+          type: 'number',
+          description: 'Project ID'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        },
+        include_inactive: {
+          type: 'boolean',
+          description: 'Include closed tasks (default: false)'
+        }
+      },
+      required: ['project_id']
+    },
+  },
+  {
+    name: 'toggl_create_task',
+    description: 'Create a new task in a project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project_id: {
+          type: 'number',
+          description: 'Project ID'
+        },
+        name: {
+          type: 'string',
+          description: 'Task name'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        },
+        estimated_hours: {
+          type: 'number',
+          description: 'Estimated hours for the task'
+        },
+        user_id: {
+          type: 'number',
+          description: 'Assign the task to this workspace member'
+        }
+      },
+      required: ['project_id', 'name']
+    },
+  },
+  {
+    name: 'toggl_update_task',
+    description: 'Update a task (rename, change estimate, reassign, or close with active: false)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        task_id: {
+          type: 'number',
+          description: 'Task ID to update'
+        },
+        project_id: {
+          type: 'number',
+          description: 'Project ID the task belongs to'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        },
+        name: {
+          type: 'string',
+          description: 'New task name'
+        },
+        active: {
+          type: 'boolean',
+          description: 'Set to false to close the task, true to reopen it'
+        },
+        estimated_hours: {
+          type: 'number',
+          description: 'New estimate in hours'
+        },
+        user_id: {
+          type: 'number',
+          description: 'Assign the task to this workspace member'
+        }
+      },
+      required: ['task_id', 'project_id']
+    },
+  },
+  {
+    name: 'toggl_delete_task',
+    description: 'Delete a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        task_id: {
+          type: 'number',
+          description: 'Task ID to delete'
+        },
+        project_id: {
+          type: 'number',
+          description: 'Project ID the task belongs to'
+        },
+        workspace_id: {
+          type: 'number',
+          description: 'Workspace ID (uses default if not provided)'
+        }
+      },
+      required: ['task_id', 'project_id']
+    },
+  },
+
+  // Cache management
+  {
+    name: 'toggl_warm_cache',
+    description: 'Pre-fetch and cache workspace, project, and client data for better performance',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspace_id: {
+          type: 'number',
+          description: 'Specific workspace to warm cache for'
+        }
+      }
+    },
+  },
+  {
+    name: 'toggl_sync_cache',
+    description: 'Fetch only projects, clients, tasks and tags changed since the last sync and patch them into the cache (warms the cache if it was never synced)',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: []
+    },
+  },
+  {
+    name: 'toggl_cache_stats',
+    description: 'Get cache statistics and performance metrics',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: []
+    },
+  },
+  {
+    name: 'toggl_clear_cache',
+    description: 'Clear all cached data',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: []
+    },
+  }
+];
+
+// Every tool can run against a named account profile
+for (const tool of tools) {
+  if (tool.name === 'toggl_list_accounts') continue;
+  tool.inputSchema.properties = {
+    ...tool.inputSchema.properties,
+    account: {
+      type: 'string',
+      description: `Account profile to use (default: ${defaultAccount.name}; see toggl_list_accounts)`
+    }
+  };
+}
+
+// Every tool that takes an entity id also accepts the entity's name
+const NAME_ALTERNATIVES: Array<[idKey: string, nameKey: string, label: string]> = [
+  ['workspace_id', 'workspace_name', 'Workspace'],
+  ['client_id', 'client_name', 'Client'],
+  ['project_id', 'project_name', 'Project'],
+  ['task_id', 'task_name', 'Task'],
+  ['tag_id', 'tag_name', 'Tag'],
+  ['source_tag_id', 'source_tag_name', 'Source tag'],
+  ['target_tag_id', 'target_tag_name', 'Target tag'],
+];
+
+for (const tool of tools) {
+  const properties = tool.inputSchema.properties as Record<string, object> | undefined;
+  if (!properties) continue;
+  for (const [idKey, nameKey, label] of NAME_ALTERNATIVES) {
+    if (!properties[idKey] || properties[nameKey]) continue;
+    properties[nameKey] = {
+      type: 'string',
+      description: `${label} name, alternative to ${idKey} (case-insensitive, fuzzy matched)`
+    };
+    // Either the id or the name satisfies the requirement
+    const required = tool.inputSchema.required as string[] | undefined;
+    if (required?.includes(idKey)) {
+      tool.inputSchema.required = required.filter(key => key !== idKey);
+    }
+  }
+}
+
+// Resolve *_name arguments to their ids through the cache. Explicit ids win.
+async function resolveNamedArgs(
+  account: Account,
+  args: Record<string, unknown> | undefined
+): Promise<Record<string, unknown> | undefined> {
+  if (!args) return args;
+  const { cache, defaultWorkspaceId } = account;
+  const resolved: Record<string, unknown> = { ...args };
+  
+  if (resolved.workspace_name && !resolved.workspace_id) {
+    const workspace = await cache.resolveWorkspace(resolved.workspace_name as string);
+    resolved.workspace_id = workspace.id;
+  }
+  
+  const scopeWorkspaceId = () => (resolved.workspace_id as number | undefined) || defaultWorkspaceId;
+  
+  if (resolved.client_name && !resolved.client_id) {
+    const client = await cache.resolveClient(resolved.client_name as string, scopeWorkspaceId());
+    resolved.client_id = client.id;
+    resolved.workspace_id ??= client.workspace_id;
+  }
+  
+  if (resolved.project_name && !resolved.project_id) {
+    const project = await cache.resolveProject(resolved.project_name as string, scopeWorkspaceId());
+    resolved.project_id = project.id;
+    resolved.workspace_id ??= project.workspace_id;
+  }
+  
+  if (resolved.task_name && !resolved.task_id) {
+    const workspaceId = scopeWorkspaceId();
+    if (!resolved.project_id || !workspaceId) {
+      throw new Error('task_name requires a project (project_id or project_name) and a workspace');
+    }
+    const task = await cache.resolveTask(resolved.task_name as string, workspaceId, resolved.project_id as number);
+    resolved.task_id = task.id;
+  }
+  
+  for (const prefix of ['', 'source_', 'target_']) {
+    const nameKey = `${prefix}tag_name`;
+    const idKey = `${prefix}tag_id`;
+    if (!resolved[nameKey] || resolved[idKey]) continue;
+    const workspaceId = scopeWorkspaceId();
+    if (!workspaceId) {
+      throw new Error(`${nameKey} requires a workspace (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)`);
+    }
+    const tag = await cache.resolveTag(resolved[nameKey] as string, workspaceId);
+    resolved[idKey] = tag.id;
+  }
+  
+  return resolved;
+}
+
+// Handle tool calls
+async function callTool(request: CallToolRequest) {
+  const { name } = request.params;
+  
   try {
+    const account = getAccount(request.params.arguments?.account);
+    const { api, cache, defaultWorkspaceId } = account;
+    const args = await resolveNamedArgs(account, request.params.arguments);
+    
     switch (name) {
       // Health/authentication
       case 'toggl_check_auth': {
@@ -608,6 +1892,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             type: 'text',
             text: JSON.stringify({
               authenticated: true,
+              account: account.name,
               user: {
                 id: (me as any).id,
                 email: maskEmail((me as any).email),
@@ -619,22 +1904,32 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'toggl_list_accounts': {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              default_account: defaultAccount.name,
+              count: accounts.size,
+              accounts: Array.from(accounts.values(), a => ({
+                name: a.name,
+                default: a === defaultAccount,
+                source: a.source,
+                default_workspace_id: a.defaultWorkspaceId ?? null,
+                cache_warmed: a.cacheWarmed
+              }))
+            }, null, 2)
+          }]
+        };
+      }
+
       // Time tracking tools
       case 'toggl_get_time_entries': {
-        await ensureCache();
+        await ensureCache(account);
         
-        let entries: TimeEntry[];
-        
-        if (args?.period) {
-          const range = getDateRange(args.period as any);
-          entries = await api.getTimeEntriesForDateRange(range.start, range.end);
-        } else if (args?.start_date || args?.end_date) {
-          const start = args?.start_date ? new Date(args.start_date as string) : new Date();
-          const end = args?.end_date ? new Date(args.end_date as string) : new Date();
-          entries = await api.getTimeEntriesForDateRange(start, end);
-        } else {
-          entries = await api.getTimeEntriesForToday();
-        }
+        const range = await getRequestedRange(account, args, 'today');
+        const { entries: fetched, limited } = await api.getTimeEntriesInRange(range.start, range.end);
+        let entries = fetched;
         
         // Filter by workspace/project if specified
         if (args?.workspace_id) {
@@ -647,15 +1942,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         // Hydrate with names
         const hydrated = await cache.hydrateTimeEntries(entries);
         
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({ 
-              count: hydrated.length,
-              entries: hydrated 
-            }, null, 2)
-          }]
-        };
+        return formatToolOutput({ 
+          count: hydrated.length,
+          entries: hydrated,
+          ...describeDataLimit(limited)
+        }, args?.format, () => [entryTable(hydrated.map(createReportEntry))], limited);
       }
       
       case 'toggl_get_current_entry': {
@@ -673,7 +1964,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
         
-        await ensureCache();
+        await ensureCache(account);
         const hydrated = await cache.hydrateTimeEntries([entry]);
         
         return {
@@ -700,8 +1991,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           args?.task_id as number | undefined,
           args?.tags as string[] | undefined
         );
+        await timerUpdated(account, entry);
         
-        await ensureCache();
+        await ensureCache(account);
         const hydrated = await cache.hydrateTimeEntries([entry]);
         
         return {
@@ -747,8 +2039,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           billable: args?.billable as boolean | undefined,
           tags: args?.tags as string[] | undefined,
         });
+        await refreshTimer(account);
 
-        await ensureCache();
+        await ensureCache(account);
         const hydrated = await cache.hydrateTimeEntries([entry]);
 
         return {
@@ -779,8 +2072,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
         
         const stopped = await api.stopTimer(current.workspace_id, current.id);
+        await timerUpdated(account, null);
         
-        await ensureCache();
+        await ensureCache(account);
         const hydrated = await cache.hydrateTimeEntries([stopped]);
         
         return {
@@ -797,149 +2091,436 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       
       // Reporting tools
       case 'toggl_daily_report': {
-        await ensureCache();
+        await ensureCache(account);
         
-        const date = args?.date ? new Date(args.date as string) : new Date();
-        const nextDay = new Date(date);
-        nextDay.setDate(nextDay.getDate() + 1);
+        const settings = await getTimeZoneSettings(account);
+        const { timeZone } = settings;
+        const range = args?.period
+          ? getDateRange(args.period as string, settings)
+          : getDateRange((args?.date as string | undefined) || 'today', settings);
         
-        const entries = await api.getTimeEntriesForDateRange(date, nextDay);
+        const { entries, limited } = await getEntriesForRange(account, range.start, range.end, args);
         const hydrated = await cache.hydrateTimeEntries(entries);
         
-        const report = generateDailyReport(date.toISOString().split('T')[0], hydrated);
+        // Label multi-day periods with their first and last day
+        const firstDay = toZonedDate(range.start, timeZone);
+        const lastDay = toZonedDate(new Date(range.end.getTime() - 1), timeZone);
+        const report = generateDailyReport(firstDay === lastDay ? firstDay : `${firstDay}..${lastDay}`, hydrated);
         
         if (args?.format === 'text') {
           return {
             content: [{
               type: 'text',
-              text: formatReportForDisplay(report)
+              text: appendDataLimit(formatReportForDisplay(report), limited)
             }]
           };
         }
         
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify(report, null, 2)
-          }]
-        };
+        return formatToolOutput({ ...report, ...describeDataLimit(limited) }, args?.format, () => reportTables(report), limited);
       }
       
       case 'toggl_weekly_report': {
-        await ensureCache();
+        await ensureCache(account);
         
         const weekOffset = (args?.week_offset as number) || 0;
-        const entries = await api.getTimeEntriesForWeek(weekOffset);
-        const hydrated = await cache.hydrateTimeEntries(entries);
         
-        // Calculate week boundaries
-        const today = new Date();
-        const dayOfWeek = today.getDay();
-        const diff = today.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1);
-        const monday = new Date(today.setDate(diff));
-        monday.setDate(monday.getDate() + (weekOffset * 7));
-        const sunday = new Date(monday);
-        sunday.setDate(sunday.getDate() + 6);
+        // Week boundaries follow the profile's time zone and week start
+        const settings = await getTimeZoneSettings(account);
+        const week = args?.period
+          ? getDateRange(args.period as string, settings)
+          : getWeekRange(weekOffset, settings);
+        
+        const { entries, limited } = await getEntriesForRange(account, week.start, week.end, args);
+        const hydrated = await cache.hydrateTimeEntries(entries);
         
-        const report = generateWeeklyReport(monday, sunday, hydrated);
+        const report = generateWeeklyReport(week.start, week.end, hydrated, settings);
         
         if (args?.format === 'text') {
           return {
             content: [{
               type: 'text',
-              text: formatReportForDisplay(report)
+              text: appendDataLimit(formatReportForDisplay(report), limited)
             }]
           };
         }
         
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify(report, null, 2)
-          }]
-        };
+        return formatToolOutput({ ...report, ...describeDataLimit(limited) }, args?.format, () => reportTables(report), limited);
       }
       
-      case 'toggl_project_summary': {
-        await ensureCache();
+      case 'toggl_monthly_report': {
+        await ensureCache(account);
         
-        let entries: TimeEntry[];
+        const settings = await getTimeZoneSettings(account);
+        const month = getMonthRange((args?.month_offset as number) || 0, settings);
+        return renderPeriodReport(await buildPeriodReport(account, month, args), args?.format);
+      }
+      
+      case 'toggl_range_report': {
+        await ensureCache(account);
         
-        if (args?.period) {
-          const range = getDateRange(args.period as any);
-          entries = await api.getTimeEntriesForDateRange(range.start, range.end);
-        } else if (args?.start_date && args?.end_date) {
-          const start = new Date(args.start_date as string);
-          const end = new Date(args.end_date as string);
-          entries = await api.getTimeEntriesForDateRange(start, end);
-        } else {
-          // Default to current week
-          entries = await api.getTimeEntriesForWeek(0);
-        }
+        const range = await getRequestedRange(account, args, 'month');
+        return renderPeriodReport(await buildPeriodReport(account, range, args), args?.format);
+      }
+      
+      case 'toggl_project_summary': {
+        await ensureCache(account);
+        
+        // Default to current week
+        const range = await getRequestedRange(account, args, 'week');
+        const { entries: fetched, limited } = await getEntriesForRange(account, range.start, range.end, args);
+        let entries = fetched;
         
         if (args?.workspace_id) {
           entries = entries.filter(e => e.workspace_id === args.workspace_id);
         }
         
         const hydrated = await cache.hydrateTimeEntries(entries);
-        const byProject = groupEntriesByProject(hydrated);
+        const summaries = summarizeBy(hydrated, 'project', group => generateProjectSummary(group.key, group.entries));
         
-        const summaries: any[] = [];
-        byProject.forEach((projectEntries, projectName) => {
-          summaries.push(generateProjectSummary(projectName, projectEntries));
-        });
-        
-        // Sort by total hours descending
-        summaries.sort((a, b) => b.total_seconds - a.total_seconds);
+        const clients = summarizeBy(hydrated, 'client', group => generateClientSummary(group.key, group.entries));
+        const users = args?.user_ids ? summarizeByUser(hydrated) : undefined;
         
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({ 
-              project_count: summaries.length,
-              total_hours: secondsToHours(summaries.reduce((t, s) => t + s.total_seconds, 0)),
-              projects: summaries 
-            }, null, 2)
-          }]
-        };
+        return formatToolOutput({ 
+          project_count: summaries.length,
+          total_hours: secondsToHours(summaries.reduce((t, s) => t + s.total_seconds, 0)),
+          ...summarizeBillableAmounts(hydrated),
+          projects: summaries,
+          by_client: clients,
+          ...(users ? { by_user: users } : {}),
+          ...describeDataLimit(limited)
+        }, args?.format, () => [
+          projectTable(summaries),
+          clientTable(clients),
+          ...(users ? [userTable(users)] : [])
+        ], limited);
       }
       
-      case 'toggl_workspace_summary': {
-        await ensureCache();
+      case 'toggl_client_summary': {
+        await ensureCache(account);
         
-        let entries: TimeEntry[];
+        // Default to current week
+        const range = await getRequestedRange(account, args, 'week');
+        const { entries: fetched, limited } = await getEntriesForRange(account, range.start, range.end, args);
+        let entries = fetched;
         
-        if (args?.period) {
-          const range = getDateRange(args.period as any);
-          entries = await api.getTimeEntriesForDateRange(range.start, range.end);
-        } else if (args?.start_date && args?.end_date) {
-          const start = new Date(args.start_date as string);
-          const end = new Date(args.end_date as string);
-          entries = await api.getTimeEntriesForDateRange(start, end);
-        } else {
-          // Default to current week
-          entries = await api.getTimeEntriesForWeek(0);
-        }
+        if (args?.workspace_id) {
+          entries = entries.filter(e => e.workspace_id === args.workspace_id);
+        }
+        
+        let hydrated = await cache.hydrateTimeEntries(entries);
+        if (args?.client_id) {
+          hydrated = hydrated.filter(e => e.client_id === args.client_id);
+        }
+        
+        // Each client lists the projects its time went to
+        const clients = summarizeBy(hydrated, 'client', group => ({
+          ...generateClientSummary(group.key, group.entries),
+          projects: summarizeBy(group.entries, 'project', project => generateProjectSummary(project.key, project.entries))
+        }));
+        
+        const users = args?.user_ids ? summarizeByUser(hydrated) : undefined;
+        
+        return formatToolOutput({ 
+          client_count: clients.filter(c => c.client_id !== undefined).length,
+          total_hours: secondsToHours(clients.reduce((t, c) => t + c.total_seconds, 0)),
+          billable_hours: secondsToHours(clients.reduce((t, c) => t + c.billable_seconds, 0)),
+          ...summarizeBillableAmounts(hydrated),
+          clients,
+          ...(users ? { by_user: users } : {}),
+          ...describeDataLimit(limited)
+        }, args?.format, () => [
+          clientTable(clients),
+          ...clients.map(client => projectTable(client.projects, `${client.client_name} Projects`)),
+          ...(users ? [userTable(users)] : [])
+        ], limited);
+      }
+      
+      case 'toggl_tag_summary': {
+        await ensureCache(account);
+        
+        // Default to current week
+        const range = await getRequestedRange(account, args, 'week');
+        const { entries: fetched, limited } = await getEntriesForRange(account, range.start, range.end, args);
+        let entries = fetched;
+        
+        if (args?.workspace_id) {
+          entries = entries.filter(e => e.workspace_id === args.workspace_id);
+        }
+        if (args?.tag_id) {
+          entries = entries.filter(e => e.tag_ids?.includes(args.tag_id as number));
+        }
         
         const hydrated = await cache.hydrateTimeEntries(entries);
-        const byWorkspace = groupEntriesByWorkspace(hydrated);
+        const limit = (args?.top_descriptions as number | undefined) ?? TOP_DESCRIPTIONS_LIMIT;
+        
+        let tags = summarizeBy(hydrated, 'tag', group => ({
+          ...generateTagSummary(group.key, group.entries, group.id),
+          top_descriptions: summarizeDescriptions(group.entries, limit)
+        }));
+        if (args?.tag_id) {
+          // Entries carry their other tags too; keep only the requested one
+          tags = tags.filter(t => t.tag_id === args.tag_id);
+        }
         
-        const summaries: any[] = [];
-        byWorkspace.forEach((wsEntries, wsName) => {
-          const wsId = wsEntries[0]?.workspace_id || 0;
-          summaries.push(generateWorkspaceSummary(wsName, wsId, wsEntries));
+        const users = args?.user_ids ? summarizeByUser(hydrated) : undefined;
+        
+        return formatToolOutput({ 
+          tag_count: tags.filter(t => t.tag_name !== UNTAGGED).length,
+          total_hours: secondsToHours(calculateTotalDuration(hydrated)),
+          note: 'Entries with several tags count toward each tag, so tag hours can add up to more than total_hours',
+          tags,
+          ...(users ? { by_user: users } : {}),
+          ...describeDataLimit(limited)
+        }, args?.format, () => [
+          tagTable(tags),
+          ...tags.map(tag => descriptionTable(tag.top_descriptions, `${tag.tag_name} Top Descriptions`)),
+          ...(users ? [userTable(users)] : [])
+        ], limited);
+      }
+      
+      case 'toggl_pivot_report': {
+        const dimensions = (args?.dimensions as PivotDimension[] | undefined) || [];
+        const metrics = (args?.metrics as PivotMetric[] | undefined) || DEFAULT_PIVOT_METRICS;
+        if (dimensions.length === 0) {
+          throw new Error(`At least one dimension is required: ${PIVOT_DIMENSIONS.join(', ')}`);
+        }
+        const unknownDimension = dimensions.find(d => !PIVOT_DIMENSIONS.includes(d));
+        if (unknownDimension) {
+          throw new Error(`Unknown dimension "${unknownDimension}". Use: ${PIVOT_DIMENSIONS.join(', ')}`);
+        }
+        if (new Set(dimensions).size !== dimensions.length) {
+          throw new Error('Each dimension can only be used once');
+        }
+        const unknownMetric = metrics.find(m => !PIVOT_METRICS.includes(m));
+        if (unknownMetric) {
+          throw new Error(`Unknown metric "${unknownMetric}". Use: ${PIVOT_METRICS.join(', ')}`);
+        }
+        
+        await ensureCache(account);
+        
+        // Default to current week
+        const settings = await getTimeZoneSettings(account);
+        const range = await getRequestedRange(account, args, 'week');
+        const { entries: fetched, limited } = await getEntriesForRange(account, range.start, range.end, args);
+        let entries = fetched;
+        
+        if (args?.workspace_id) {
+          entries = entries.filter(e => e.workspace_id === args.workspace_id);
+        }
+        
+        const hydrated = await cache.hydrateTimeEntries(entries);
+        const report: PivotReport = {
+          period_start: toZonedDate(range.start, settings.timeZone),
+          period_end: toZonedDate(new Date(range.end.getTime() - 1), settings.timeZone),
+          dimensions,
+          metrics,
+          totals: computeMetrics(hydrated, metrics),
+          rows: buildPivot(hydrated, dimensions, metrics, settings)
+        };
+        
+        return formatToolOutput({ ...report, ...describeDataLimit(limited) }, args?.format, () => [pivotTable(report)], limited);
+      }
+      
+      case 'toggl_workspace_summary': {
+        await ensureCache(account);
+        
+        // Default to current week
+        const range = await getRequestedRange(account, args, 'week');
+        const { entries, limited } = await getEntriesForRange(account, range.start, range.end, args);
+        
+        const hydrated = await cache.hydrateTimeEntries(entries);
+        const summaries = summarizeBy(
+          hydrated,
+          'workspace',
+          group => generateWorkspaceSummary(group.key, group.id ?? 0, group.entries)
+        );
+        
+        const users = args?.user_ids ? summarizeByUser(hydrated) : undefined;
+        
+        return formatToolOutput({ 
+          workspace_count: summaries.length,
+          total_hours: secondsToHours(summaries.reduce((t, s) => t + s.total_seconds, 0)),
+          ...summarizeBillableAmounts(hydrated),
+          workspaces: summaries,
+          ...(users ? { by_user: users } : {}),
+          ...describeDataLimit(limited)
+        }, args?.format, () => [
+          workspaceTable(summaries),
+          ...(users ? [userTable(users)] : [])
+        ], limited);
+      }
+      
+      case 'toggl_detailed_report': {
+        const workspaceId = args?.workspace_id || defaultWorkspaceId;
+        if (!workspaceId) {
+          throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
+        }
+        
+        await ensureCache(account);
+        
+        const dates = await getReportDates(account, args);
+        const rows = await api.getDetailedReport(workspaceId as number, {
+          ...dates,
+          ...getReportFilters(args),
+          grouped: false
+        });
+        const entries = detailedRowsToTimeEntries(workspaceId as number, rows);
+        const hydrated = await cache.hydrateTimeEntries(entries);
+        
+        // The Reports API already knows each member's name
+        const usernames = new Map(rows.map(row => [row.user_id, row.username]));
+        hydrated.forEach(entry => {
+          if (entry.user_id && usernames.has(entry.user_id)) {
+            entry.user_name = usernames.get(entry.user_id);
+          }
+        });
+        
+        const totalSeconds = hydrated.reduce((t, e) => t + e.duration, 0);
+        
+        return formatToolOutput({
+          workspace_id: workspaceId,
+          ...dates,
+          count: hydrated.length,
+          total_hours: secondsToHours(totalSeconds),
+          entries: hydrated
+        }, args?.format, () => [
+          entryTable(hydrated.map(createReportEntry), `Detailed Report ${dates.start_date} to ${dates.end_date}`)
+        ]);
+      }
+      
+      case 'toggl_summary_report': {
+        const workspaceId = args?.workspace_id || defaultWorkspaceId;
+        if (!workspaceId) {
+          throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
+        }
+        
+        await ensureCache(account);
+        
+        const dates = await getReportDates(account, args);
+        const grouping = (args?.grouping as ReportsSummaryGrouping | undefined) || 'projects';
+        const subGrouping = (args?.sub_grouping as ReportsSummarySubGrouping | undefined) || 'time_entries';
+        const summary = await api.getSummaryReport(workspaceId as number, {
+          ...dates,
+          ...getReportFilters(args),
+          grouping,
+          sub_grouping: subGrouping
         });
         
+        // Resolve group ids to names through the cache
+        const nameFor = async (kind: string, id: number | null): Promise<string> => {
+          if (id === null) return `No ${kind.replace(/s$/, '')}`;
+          switch (kind) {
+            case 'projects':
+              return (await cache.getProject(id, workspaceId as number))?.name || `Project ${id}`;
+            case 'clients':
+              return (await cache.getClient(id))?.name || `Client ${id}`;
+            case 'users': {
+              const user = await cache.getUser(id, workspaceId as number);
+              return user?.fullname || user?.email || `User ${id}`;
+            }
+            default:
+              return `${kind} ${id}`;
+          }
+        };
+        
+        type SummaryRow = { id: number | null; name: string; total_hours: number; total_seconds: number };
+        const groups: Array<SummaryRow & { sub_groups: SummaryRow[] }> = [];
+        for (const group of summary.groups) {
+          const subGroups: SummaryRow[] = [];
+          for (const sub of group.sub_groups) {
+            let name: string;
+            if (subGrouping === 'time_entries') {
+              name = sub.title || '(no description)';
+            } else if (subGrouping === 'tasks') {
+              name = sub.title || (sub.id === null ? 'No task' : `Task ${sub.id}`);
+            } else {
+              name = await nameFor(subGrouping, sub.id);
+            }
+            subGroups.push({
+              id: sub.id,
+              name,
+              total_hours: secondsToHours(sub.seconds),
+              total_seconds: sub.seconds
+            });
+          }
+          subGroups.sort((a, b) => b.total_seconds - a.total_seconds);
+          
+          const groupSeconds = group.sub_groups.reduce((t, sg) => t + sg.seconds, 0);
+          groups.push({
+            id: group.id,
+            name: await nameFor(grouping, group.id),
+            total_hours: secondsToHours(groupSeconds),
+            total_seconds: groupSeconds,
+            sub_groups: subGroups
+          });
+        }
+        
         // Sort by total hours descending
-        summaries.sort((a, b) => b.total_seconds - a.total_seconds);
+        groups.sort((a, b) => b.total_seconds - a.total_seconds);
+        
+        return formatToolOutput({
+          workspace_id: workspaceId,
+          ...dates,
+          grouping,
+          sub_grouping: subGrouping,
+          total_hours: secondsToHours(groups.reduce((t, g) => t + g.total_seconds, 0)),
+          groups
+        }, args?.format, () => [{
+          title: `Summary Report ${dates.start_date} to ${dates.end_date}`,
+          columns: [grouping, subGrouping, 'Hours'].map(name => name.charAt(0).toUpperCase() + name.slice(1).replace('_', ' ')),
+          rows: groups.flatMap(group => [
+            [group.name, null, group.total_hours],
+            ...group.sub_groups.map(sub => [group.name, sub.name, sub.total_hours])
+          ])
+        }]);
+      }
+      
+      case 'toggl_export_timesheet': {
+        const format = (args?.format as TimesheetFormat | undefined) || 'csv';
+        if (!TIMESHEET_FORMATS.includes(format)) {
+          throw new Error(`Unknown export format "${format}". Use: ${TIMESHEET_FORMATS.join(', ')}`);
+        }
+        
+        await ensureCache(account);
+        
+        const { timeZone } = await getTimeZoneSettings(account);
+        const range = await getRequestedRange(account, args, 'last month');
+        const { entries: fetched, limited } = await getEntriesForRange(account, range.start, range.end, args);
+        let entries = fetched;
+        
+        if (args?.workspace_id) {
+          entries = entries.filter(e => e.workspace_id === args.workspace_id);
+        }
+        if (args?.project_id) {
+          entries = entries.filter(e => e.project_id === args.project_id);
+        }
+        
+        let hydrated = await cache.hydrateTimeEntries(entries);
+        if (args?.client_id) {
+          hydrated = hydrated.filter(e => e.client_id === args.client_id);
+        }
+        
+        const options = {
+          timeZone,
+          startDate: toZonedDate(range.start, timeZone),
+          endDate: toZonedDate(new Date(range.end.getTime() - 1), timeZone)
+        };
+        const rendered = renderTimesheet(hydrated, format, options);
+        const result = writeTimesheet(
+          exportDir,
+          timesheetFilename(format, options, args?.filename as string | undefined),
+          format,
+          rendered
+        );
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({ 
-              workspace_count: summaries.length,
-              total_hours: secondsToHours(summaries.reduce((t, s) => t + s.total_seconds, 0)),
-              workspaces: summaries 
+            text: JSON.stringify({
+              ...result,
+              start_date: options.startDate,
+              end_date: options.endDate,
+              ...describeDataLimit(limited)
             }, null, 2)
           }]
         };
@@ -964,247 +2545,589 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }]
         };
       }
-      
-      case 'toggl_list_projects': {
+      
+      case 'toggl_list_projects': {
+        const workspaceId = args?.workspace_id || defaultWorkspaceId;
+        if (!workspaceId) {
+          throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
+        }
+        
+        const projects = await api.getProjects(workspaceId as number);
+        
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ 
+              workspace_id: workspaceId,
+              count: projects.length,
+              projects: projects.map(p => ({
+                id: p.id,
+                name: p.name,
+                active: p.active,
+                billable: p.billable,
+                color: p.color,
+                client_id: p.client_id
+              }))
+            }, null, 2)
+          }]
+        };
+      }
+      
+      case 'toggl_list_clients': {
+        const workspaceId = args?.workspace_id || defaultWorkspaceId;
+        if (!workspaceId) {
+          throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
+        }
+        
+        const clients = await api.getClients(workspaceId as number);
+        
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ 
+              workspace_id: workspaceId,
+              count: clients.length,
+              clients: clients.map(c => ({
+                id: c.id,
+                name: c.name,
+                archived: c.archived
+              }))
+            }, null, 2)
+          }]
+        };
+      }
+      
+      case 'toggl_list_users': {
+        const workspaceId = args?.workspace_id || defaultWorkspaceId;
+        if (!workspaceId) {
+          throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
+        }
+        
+        const users = await cache.getWorkspaceUsers(workspaceId as number);
+        
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ 
+              workspace_id: workspaceId,
+              count: users.length,
+              users: users.map(u => ({
+                id: u.id,
+                fullname: u.fullname,
+                email: u.email,
+                timezone: u.timezone
+              }))
+            }, null, 2)
+          }]
+        };
+      }
+      
+      case 'toggl_create_client': {
+        const workspaceId = args?.workspace_id || defaultWorkspaceId;
+        if (!workspaceId) {
+          throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
+        }
+
+        if (!args?.name) {
+          throw new Error('Client name is required');
+        }
+
+        const newClient = await api.createClient(workspaceId as number, {
+          name: args.name as string,
+          notes: args?.notes as string | undefined,
+        });
+
+        // Write through so the new client appears in lookups
+        cache.update('clients', newClient);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Client "${newClient.name}" created`,
+              client: {
+                id: newClient.id,
+                name: newClient.name,
+                workspace_id: newClient.workspace_id,
+                notes: newClient.notes,
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'toggl_create_project': {
+        const workspaceId = args?.workspace_id || defaultWorkspaceId;
+        if (!workspaceId) {
+          throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
+        }
+
+        if (!args?.name) {
+          throw new Error('Project name is required');
+        }
+
+        const project = await api.createProject(workspaceId as number, {
+          name: args.name as string,
+          client_id: args?.client_id as number | undefined,
+          is_private: args?.is_private as boolean | undefined,
+          active: args?.active as boolean | undefined,
+          color: args?.color as string | undefined,
+          billable: args?.billable as boolean | undefined,
+          estimated_hours: args?.estimated_hours as number | undefined,
+        });
+
+        // Write through so the new project appears in lookups
+        cache.update('projects', project);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Project "${project.name}" created`,
+              project: {
+                id: project.id,
+                name: project.name,
+                workspace_id: project.workspace_id,
+                client_id: project.client_id,
+                active: project.active,
+                billable: project.billable,
+                color: project.color,
+                is_private: project.is_private,
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'toggl_update_project': {
+        const workspaceId = args?.workspace_id || defaultWorkspaceId;
+        if (!workspaceId) {
+          throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
+        }
+
+        if (!args?.project_id) {
+          throw new Error('Project ID or project_name is required');
+        }
+
+        const updates: Record<string, any> = {};
+        if (args?.name !== undefined) updates.name = args.name;
+        if (args?.client_id !== undefined) updates.client_id = args.client_id;
+        if (args?.active !== undefined) updates.active = args.active;
+        if (args?.is_private !== undefined) updates.is_private = args.is_private;
+        if (args?.color !== undefined) updates.color = args.color;
+        if (args?.billable !== undefined) updates.billable = args.billable;
+        if (args?.estimated_hours !== undefined) updates.estimated_hours = args.estimated_hours;
+
+        const updatedProject = await api.updateProject(
+          workspaceId as number,
+          args.project_id as number,
+          updates
+        );
+
+        cache.update('projects', updatedProject);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Project "${updatedProject.name}" updated`,
+              project: {
+                id: updatedProject.id,
+                name: updatedProject.name,
+                workspace_id: updatedProject.workspace_id,
+                client_id: updatedProject.client_id,
+                active: updatedProject.active,
+                billable: updatedProject.billable,
+                color: updatedProject.color,
+                is_private: updatedProject.is_private,
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'toggl_update_time_entry': {
+        const workspaceId = args?.workspace_id || defaultWorkspaceId;
+        if (!workspaceId) {
+          throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
+        }
+
+        if (!args?.time_entry_id) {
+          throw new Error('Time entry ID is required');
+        }
+
+        const entryUpdates: Record<string, any> = {};
+        if (args?.description !== undefined) entryUpdates.description = args.description;
+        if (args?.project_id !== undefined) entryUpdates.project_id = args.project_id;
+        if (args?.task_id !== undefined) entryUpdates.task_id = args.task_id;
+        if (args?.billable !== undefined) entryUpdates.billable = args.billable;
+        if (args?.start !== undefined) entryUpdates.start = args.start;
+        if (args?.stop !== undefined) entryUpdates.stop = args.stop;
+        if (args?.duration !== undefined) entryUpdates.duration = args.duration;
+        if (args?.tags !== undefined) entryUpdates.tags = args.tags;
+
+        const updatedEntry = await api.updateTimeEntry(
+          workspaceId as number,
+          args.time_entry_id as number,
+          entryUpdates
+        );
+        await refreshTimer(account);
+
+        await ensureCache(account);
+        const hydrated = await cache.hydrateTimeEntries([updatedEntry]);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'Time entry updated',
+              entry: hydrated[0]
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'toggl_delete_time_entry': {
+        const workspaceId = args?.workspace_id || defaultWorkspaceId;
+        if (!workspaceId) {
+          throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
+        }
+
+        if (!args?.time_entry_id) {
+          throw new Error('Time entry ID is required');
+        }
+
+        await api.deleteTimeEntry(workspaceId as number, args.time_entry_id as number);
+        await refreshTimer(account);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Time entry ${args.time_entry_id} deleted`
+            }, null, 2)
+          }]
+        };
+      }
+
+      // Tag management
+      case 'toggl_list_tags': {
+        const workspaceId = args?.workspace_id || defaultWorkspaceId;
+        if (!workspaceId) {
+          throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
+        }
+
+        const tags = await cache.getTags(workspaceId as number);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              workspace_id: workspaceId,
+              count: tags.length,
+              tags: tags
+                .map(t => ({ id: t.id, name: t.name }))
+                .sort((a, b) => a.name.localeCompare(b.name))
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'toggl_create_tag': {
         const workspaceId = args?.workspace_id || defaultWorkspaceId;
         if (!workspaceId) {
           throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
         }
-        
-        const projects = await api.getProjects(workspaceId as number);
-        
+
+        if (!args?.name) {
+          throw new Error('Tag name is required');
+        }
+
+        const tag = await api.createTag(workspaceId as number, args.name as string);
+        cache.update('tags', tag);
+
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({ 
-              workspace_id: workspaceId,
-              count: projects.length,
-              projects: projects.map(p => ({
-                id: p.id,
-                name: p.name,
-                active: p.active,
-                billable: p.billable,
-                color: p.color,
-                client_id: p.client_id
-              }))
+            text: JSON.stringify({
+              success: true,
+              message: `Tag "${tag.name}" created`,
+              tag: { id: tag.id, name: tag.name, workspace_id: tag.workspace_id }
             }, null, 2)
           }]
         };
       }
-      
-      case 'toggl_list_clients': {
+
+      case 'toggl_update_tag': {
         const workspaceId = args?.workspace_id || defaultWorkspaceId;
         if (!workspaceId) {
           throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
         }
-        
-        const clients = await api.getClients(workspaceId as number);
-        
+
+        if (!args?.tag_id) {
+          throw new Error('Tag ID or tag_name is required');
+        }
+        if (!args?.name) {
+          throw new Error('New tag name is required');
+        }
+
+        const tag = await api.updateTag(workspaceId as number, args.tag_id as number, args.name as string);
+        cache.update('tags', tag);
+
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({ 
-              workspace_id: workspaceId,
-              count: clients.length,
-              clients: clients.map(c => ({
-                id: c.id,
-                name: c.name,
-                archived: c.archived
-              }))
+            text: JSON.stringify({
+              success: true,
+              message: `Tag renamed to "${tag.name}"`,
+              tag: { id: tag.id, name: tag.name, workspace_id: tag.workspace_id }
             }, null, 2)
           }]
         };
       }
-      
-      case 'toggl_create_client': {
+
+      case 'toggl_delete_tag': {
         const workspaceId = args?.workspace_id || defaultWorkspaceId;
         if (!workspaceId) {
           throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
         }
 
-        if (!args?.name) {
-          throw new Error('Client name is required');
+        if (!args?.tag_id) {
+          throw new Error('Tag ID or tag_name is required');
         }
 
-        const newClient = await api.createClient(workspaceId as number, {
-          name: args.name as string,
-          notes: args?.notes as string | undefined,
-        });
-
-        // Invalidate cache so new client appears in lookups
-        cache.clearCache();
-        cacheWarmed = false;
+        await api.deleteTag(workspaceId as number, args.tag_id as number);
+        cache.invalidate('tags', args.tag_id as number);
 
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              message: `Client "${newClient.name}" created`,
-              client: {
-                id: newClient.id,
-                name: newClient.name,
-                workspace_id: newClient.workspace_id,
-                notes: newClient.notes,
-              }
+              message: `Tag ${args.tag_id} deleted`
             }, null, 2)
           }]
         };
       }
 
-      case 'toggl_create_project': {
+      case 'toggl_merge_tags': {
         const workspaceId = args?.workspace_id || defaultWorkspaceId;
         if (!workspaceId) {
           throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
         }
 
-        if (!args?.name) {
-          throw new Error('Project name is required');
+        if (!args?.source_tag_id || !args?.target_tag_id) {
+          throw new Error('Source and target tags are required (source_tag_id/source_tag_name and target_tag_id/target_tag_name)');
+        }
+        if (args.source_tag_id === args.target_tag_id) {
+          throw new Error('Source and target tags must be different');
         }
 
-        const project = await api.createProject(workspaceId as number, {
-          name: args.name as string,
-          client_id: args?.client_id as number | undefined,
-          is_private: args?.is_private as boolean | undefined,
-          active: args?.active as boolean | undefined,
-          color: args?.color as string | undefined,
-          billable: args?.billable as boolean | undefined,
-          estimated_hours: args?.estimated_hours as number | undefined,
+        const tags = await cache.getTags(workspaceId as number);
+        const source = tags.find(t => t.id === args.source_tag_id);
+        const target = tags.find(t => t.id === args.target_tag_id);
+        if (!source) throw new Error(`Tag ${args.source_tag_id} not found in workspace ${workspaceId}`);
+        if (!target) throw new Error(`Tag ${args.target_tag_id} not found in workspace ${workspaceId}`);
+
+        // Toggl strips a deleted tag from every entry, so the source can only
+        // go once its whole history has been rewritten
+        const deleteSource = args?.delete_source === true;
+        if (deleteSource && (args?.start_date || args?.end_date)) {
+          throw new Error('delete_source rewrites the full history first; leave out start_date and end_date');
+        }
+
+        const settings = await getTimeZoneSettings(account);
+        const { timeZone } = settings;
+        const { startDay, endDay } = parseDayRangeArguments({
+          start_date: args?.start_date || await getHistoryStart(account, workspaceId as number, timeZone),
+          end_date: args?.end_date
+        }, settings);
+
+        // The Reports API finds tagged entries for every workspace member.
+        // Running timers are not in reports, so check yours separately.
+        const affected = await api.searchTimeEntries(workspaceId as number, {
+          start_date: startDay,
+          end_date: endDay,
+          tag_ids: [source.id]
         });
+        const running = await api.getCurrentTimeEntry();
+        if (
+          running && running.workspace_id === workspaceId &&
+          running.tag_ids?.includes(source.id) && !affected.some(e => e.id === running.id)
+        ) {
+          affected.push(running);
+        }
 
-        // Invalidate cache so new project appears in lookups
-        cache.clearCache();
-        cacheWarmed = false;
+        // Rewrite sequentially to stay within rate limits. Reports rows carry
+        // tag ids only, so the new tag list is built from those.
+        const updatedIds: number[] = [];
+        const failed: { id: number; error: string }[] = [];
+        for (const entry of affected) {
+          const tagIds = (entry.tag_ids || []).map(id => (id === source.id ? target.id : id));
+          try {
+            await api.updateTimeEntry(workspaceId as number, entry.id, {
+              tag_ids: Array.from(new Set(tagIds))
+            });
+            updatedIds.push(entry.id);
+          } catch (error) {
+            failed.push({ id: entry.id, error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+
+        const sourceDeleted = deleteSource && failed.length === 0;
+        if (sourceDeleted) {
+          await api.deleteTag(workspaceId as number, source.id);
+          cache.invalidate('tags', source.id);
+        }
+
+        let message = `Merged tag "${source.name}" into "${target.name}"`;
+        if (failed.length > 0) {
+          message = `${failed.length} of ${affected.length} entries could not be rewritten` +
+            (deleteSource ? `; tag "${source.name}" was kept` : '');
+        }
 
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
-              success: true,
-              message: `Project "${project.name}" created`,
-              project: {
-                id: project.id,
-                name: project.name,
-                workspace_id: project.workspace_id,
-                client_id: project.client_id,
-                active: project.active,
-                billable: project.billable,
-                color: project.color,
-                is_private: project.is_private,
+              success: failed.length === 0,
+              message,
+              entries_updated: updatedIds.length,
+              updated_entry_ids: updatedIds,
+              ...(failed.length > 0 && { failed_entries: failed }),
+              source_deleted: sourceDeleted,
+              range: {
+                start_date: startDay,
+                end_date: endDay
               }
             }, null, 2)
           }]
         };
       }
 
-      case 'toggl_update_project': {
+      // Task management
+      case 'toggl_list_tasks': {
         const workspaceId = args?.workspace_id || defaultWorkspaceId;
         if (!workspaceId) {
           throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
         }
 
         if (!args?.project_id) {
-          throw new Error('Project ID is required');
+          throw new Error('Project ID or project_name is required');
         }
 
-        const updates: Record<string, any> = {};
-        if (args?.name !== undefined) updates.name = args.name;
-        if (args?.client_id !== undefined) updates.client_id = args.client_id;
-        if (args?.active !== undefined) updates.active = args.active;
-        if (args?.is_private !== undefined) updates.is_private = args.is_private;
-        if (args?.color !== undefined) updates.color = args.color;
-        if (args?.billable !== undefined) updates.billable = args.billable;
-        if (args?.estimated_hours !== undefined) updates.estimated_hours = args.estimated_hours;
+        const tasks = (await cache.getTasks(workspaceId as number, args.project_id as number))
+          .filter(t => args?.include_inactive || t.active !== false);
 
-        const updatedProject = await api.updateProject(
-          workspaceId as number,
-          args.project_id as number,
-          updates
-        );
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              workspace_id: workspaceId,
+              project_id: args.project_id,
+              count: tasks.length,
+              tasks: tasks.map(describeTask)
+            }, null, 2)
+          }]
+        };
+      }
 
-        cache.clearCache();
-        cacheWarmed = false;
+      case 'toggl_create_task': {
+        const workspaceId = args?.workspace_id || defaultWorkspaceId;
+        if (!workspaceId) {
+          throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
+        }
+
+        if (!args?.project_id) {
+          throw new Error('Project ID or project_name is required');
+        }
+        if (!args?.name) {
+          throw new Error('Task name is required');
+        }
+
+        const task = await api.createTask(workspaceId as number, args.project_id as number, {
+          name: args.name as string,
+          estimated_seconds: args?.estimated_hours !== undefined
+            ? Math.round((args.estimated_hours as number) * 3600)
+            : undefined,
+          user_id: args?.user_id as number | undefined,
+        });
+        cache.update('tasks', task);
 
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              message: `Project "${updatedProject.name}" updated`,
-              project: {
-                id: updatedProject.id,
-                name: updatedProject.name,
-                workspace_id: updatedProject.workspace_id,
-                client_id: updatedProject.client_id,
-                active: updatedProject.active,
-                billable: updatedProject.billable,
-                color: updatedProject.color,
-                is_private: updatedProject.is_private,
-              }
+              message: `Task "${task.name}" created`,
+              task: describeTask(task)
             }, null, 2)
           }]
         };
       }
 
-      case 'toggl_update_time_entry': {
+      case 'toggl_update_task': {
         const workspaceId = args?.workspace_id || defaultWorkspaceId;
         if (!workspaceId) {
           throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
         }
 
-        if (!args?.time_entry_id) {
-          throw new Error('Time entry ID is required');
+        if (!args?.task_id || !args?.project_id) {
+          throw new Error('Task (task_id or task_name) and project (project_id or project_name) are required');
         }
 
-        const entryUpdates: Record<string, any> = {};
-        if (args?.description !== undefined) entryUpdates.description = args.description;
-        if (args?.project_id !== undefined) entryUpdates.project_id = args.project_id;
-        if (args?.task_id !== undefined) entryUpdates.task_id = args.task_id;
-        if (args?.billable !== undefined) entryUpdates.billable = args.billable;
-        if (args?.start !== undefined) entryUpdates.start = args.start;
-        if (args?.stop !== undefined) entryUpdates.stop = args.stop;
-        if (args?.duration !== undefined) entryUpdates.duration = args.duration;
-        if (args?.tags !== undefined) entryUpdates.tags = args.tags;
+        const taskUpdates: UpdateTaskRequest = {};
+        if (args?.name !== undefined) taskUpdates.name = args.name as string;
+        if (args?.active !== undefined) taskUpdates.active = args.active as boolean;
+        if (args?.estimated_hours !== undefined) {
+          taskUpdates.estimated_seconds = Math.round((args.estimated_hours as number) * 3600);
+        }
+        if (args?.user_id !== undefined) taskUpdates.user_id = args.user_id as number;
 
-        const updatedEntry = await api.updateTimeEntry(
+        const task = await api.updateTask(
           workspaceId as number,
-          args.time_entry_id as number,
-          entryUpdates
+          args.project_id as number,
+          args.task_id as number,
+          taskUpdates
         );
-
-        await ensureCache();
-        const hydrated = await cache.hydrateTimeEntries([updatedEntry]);
+        cache.update('tasks', task);
 
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              message: 'Time entry updated',
-              entry: hydrated[0]
+              message: `Task "${task.name}" updated`,
+              task: describeTask(task)
             }, null, 2)
           }]
         };
       }
 
-      case 'toggl_delete_time_entry': {
+      case 'toggl_delete_task': {
         const workspaceId = args?.workspace_id || defaultWorkspaceId;
         if (!workspaceId) {
           throw new Error('Workspace ID required (set TOGGL_DEFAULT_WORKSPACE_ID or provide workspace_id)');
         }
 
-        if (!args?.time_entry_id) {
-          throw new Error('Time entry ID is required');
+        if (!args?.task_id || !args?.project_id) {
+          throw new Error('Task (task_id or task_name) and project (project_id or project_name) are required');
         }
 
-        await api.deleteTimeEntry(workspaceId as number, args.time_entry_id as number);
+        await api.deleteTask(workspaceId as number, args.project_id as number, args.task_id as number);
+        cache.invalidate('tasks', args.task_id as number);
 
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              message: `Time entry ${args.time_entry_id} deleted`
+              message: `Task ${args.task_id} deleted`
             }, null, 2)
           }]
         };
@@ -1214,7 +3137,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'toggl_warm_cache': {
         const workspaceId = (args?.workspace_id as number | undefined) || defaultWorkspaceId;
         await cache.warmCache(workspaceId);
-        cacheWarmed = true;
+        account.cacheWarmed = true;
         
         const stats = cache.getStats();
         
@@ -1230,6 +3153,30 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
       
+      case 'toggl_sync_cache': {
+        const result = await cache.syncChanges();
+        if (!result) {
+          // Never synced (or the delta failed): fall back to a full warm
+          await cache.warmCache(defaultWorkspaceId);
+          account.cacheWarmed = true;
+        }
+        
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ 
+              success: true,
+              mode: result ? 'delta' : 'full',
+              message: result
+                ? `Synced changes since ${result.since.toISOString()}`
+                : 'No previous sync to build on; cache warmed instead',
+              ...(result ? { updated: result.updated, removed: result.removed } : {}),
+              stats: cache.getStats()
+            }, null, 2)
+          }]
+        };
+      }
+      
       case 'toggl_cache_stats': {
         const stats = cache.getStats();
         const hitRate = stats.hits + stats.misses > 0
@@ -1242,7 +3189,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             text: JSON.stringify({ 
               ...stats,
               hit_rate: `${hitRate}%`,
-              cache_warmed: cacheWarmed
+              cache_warmed: account.cacheWarmed
             }, null, 2)
           }]
         };
@@ -1250,7 +3197,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       
       case 'toggl_clear_cache': {
         cache.clearCache();
-        cacheWarmed = false;
+        account.cacheWarmed = false;
         
         return {
           content: [{
@@ -1278,12 +3225,342 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }]
     };
   }
-});
+}
+
+// Timer URIs each session subscribed to; the running timer is the only
+// resource that sends updates, one per account. With the HTTP transport each
+// session has its own server.
+const timerSubscriptions = new Map<Server, Set<string>>();
+let timerPoll: NodeJS.Timeout | undefined;
+
+// The running timer per account as last seen, so unchanged polls stay quiet
+const lastTimerStates = new Map<Account, string>();
+function timerState(entry: TimeEntry | null): string {
+  return entry
+    ? JSON.stringify([entry.id, entry.at, entry.start, entry.description, entry.project_id, entry.task_id, entry.tags])
+    : 'none';
+}
+
+// Subscribed timer URIs with their session, for one account or all
+function timerSubscribers(account?: Account): Array<{ server: Server; uri: string; account: Account }> {
+  return Array.from(timerSubscriptions).flatMap(([server, uris]) => Array.from(uris, uri => ({
+    server,
+    uri,
+    account: getAccount(parseResourceUri(uri).account)
+  }))).filter(subscriber => !account || subscriber.account === account);
+}
+
+// Notify an account's subscribers when its running timer differs from the last one seen
+async function timerUpdated(account: Account, current: TimeEntry | null): Promise<void> {
+  const state = timerState(current);
+  if (state === lastTimerStates.get(account)) return;
+  lastTimerStates.set(account, state);
+  
+  await Promise.all(timerSubscribers(account).map(({ server, uri }) =>
+    server.sendResourceUpdated({ uri })
+      .catch(error => console.error('Failed to send timer update:', error))
+  ));
+}
+
+// Re-check the timer after edits that may or may not have touched it.
+// Skipped without subscribers for the account to save the API call.
+async function refreshTimer(account: Account): Promise<void> {
+  if (timerSubscribers(account).length === 0) return;
+  try {
+    await timerUpdated(account, await account.api.getCurrentTimeEntry());
+  } catch (error) {
+    console.error('Failed to check running timer:', error);
+  }
+}
+
+function startTimerPoll(): void {
+  if (timerPollInterval <= 0 || timerPoll) return;
+  timerPoll = setInterval(() => {
+    new Set(timerSubscribers().map(subscriber => subscriber.account)).forEach(account => { void refreshTimer(account); });
+  }, timerPollInterval);
+  timerPoll.unref();
+}
+
+// Drop one timer subscription of a session, or all of them
+function unsubscribeTimer(server: Server, uri?: string): void {
+  const uris = timerSubscriptions.get(server);
+  if (uri) uris?.delete(uri);
+  if (!uri || uris?.size === 0) timerSubscriptions.delete(server);
+  if (timerSubscriptions.size === 0) {
+    clearInterval(timerPoll);
+    timerPoll = undefined;
+  }
+}
+
+// Resource contents for a toggl:// URI, read through the cache
+async function readResource(uri: string): Promise<unknown> {
+  const request = parseResourceUri(uri);
+  const account = getAccount(request.account);
+  const { api, cache } = account;
+  await ensureCache(account);
+  
+  switch (request.kind) {
+    case 'workspaces': {
+      const workspaces = await cache.getWorkspaces();
+      return {
+        count: workspaces.length,
+        workspaces: workspaces.map(ws => ({
+          id: ws.id,
+          name: ws.name,
+          premium: ws.premium,
+          default_currency: ws.default_currency,
+          default_hourly_rate: ws.default_hourly_rate ?? null
+        }))
+      };
+    }
+    
+    case 'timer': {
+      const entry = await api.getCurrentTimeEntry();
+      lastTimerStates.set(account, timerState(entry));
+      if (!entry) {
+        return { running: false };
+      }
+      const [hydrated] = await cache.hydrateTimeEntries([entry]);
+      return { running: true, entry: hydrated };
+    }
+    
+    case 'projects': {
+      const [projects, clients] = await Promise.all([
+        cache.listProjects(request.workspaceId),
+        cache.listClients(request.workspaceId)
+      ]);
+      const clientNames = new Map(clients.map(c => [c.id, c.name]));
+      return {
+        workspace_id: request.workspaceId,
+        count: projects.length,
+        projects: projects.map(p => ({
+          id: p.id,
+          name: p.name,
+          active: p.active,
+          billable: p.billable,
+          client_id: p.client_id ?? null,
+          client_name: p.client_id ? clientNames.get(p.client_id) ?? null : null,
+          rate: p.rate ?? null,
+          currency: p.currency ?? null
+        }))
+      };
+    }
+    
+    case 'clients': {
+      const clients = await cache.listClients(request.workspaceId);
+      return {
+        workspace_id: request.workspaceId,
+        count: clients.length,
+        clients: clients.map(c => ({ id: c.id, name: c.name, archived: c.archived ?? false }))
+      };
+    }
+    
+    case 'tags': {
+      const tags = await cache.listTags(request.workspaceId);
+      return {
+        workspace_id: request.workspaceId,
+        count: tags.length,
+        tags: tags.map(t => ({ id: t.id, name: t.name }))
+      };
+    }
+    
+    case 'week-report': {
+      const settings = await getTimeZoneSettings(account);
+      const week = getWeekRange(request.offset, settings);
+      const { entries, limited } = await getEntriesForRange(account, week.start, week.end, undefined);
+      const hydrated = await cache.hydrateTimeEntries(entries);
+      return { ...generateWeeklyReport(week.start, week.end, hydrated, settings), ...describeDataLimit(limited) };
+    }
+    
+    case 'month-report': {
+      const settings = await getTimeZoneSettings(account);
+      return periodReportOutput(await buildPeriodReport(account, getMonthRange(request.offset, settings), undefined));
+    }
+  }
+}
+
+// Prompt arguments are strings holding either an ID or a name
+function idOrName(value: string | undefined, entity: 'workspace' | 'client'): Record<string, unknown> {
+  if (!value?.trim()) return {};
+  return /^\d+$/.test(value.trim())
+    ? { [`${entity}_id`]: parseInt(value) }
+    : { [`${entity}_name`]: value };
+}
+
+// Prompt messages pre-populated with report data for the requested day or period
+async function getPrompt(name: string, promptArgs: Record<string, string> | undefined): Promise<GetPromptResult> {
+  if (!PROMPTS.some(prompt => prompt.name === name)) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  
+  const account = getAccount(promptArgs?.account);
+  const { cache } = account;
+  await ensureCache(account);
+  const settings = await getTimeZoneSettings(account);
+  const { timeZone } = settings;
+  // Only the invoice draft defaults to one workspace; the others cover all
+  const workspace = promptArgs?.workspace
+    || (name === 'weekly_invoice_draft' && account.defaultWorkspaceId ? String(account.defaultWorkspaceId) : undefined);
+  const args = await resolveNamedArgs(account, {
+    ...idOrName(workspace, 'workspace'),
+    ...idOrName(promptArgs?.client, 'client')
+  });
+  
+  // Hydrated entries for a period, limited to the workspace when one is given
+  const getEntries = async (range: DateRange) => {
+    const { entries, limited } = await getEntriesForRange(account, range.start, range.end, undefined);
+    const inWorkspace = args?.workspace_id ? entries.filter(e => e.workspace_id === args.workspace_id) : entries;
+    return { entries: await cache.hydrateTimeEntries(inWorkspace), limited };
+  };
+  
+  if (name === 'weekly_invoice_draft') {
+    if (!args?.client_id) {
+      throw new Error('client is required');
+    }
+    const client = await cache.getClient(args.client_id as number);
+    const range = getDateRange(promptArgs?.period || 'last week', settings);
+    const { entries, limited } = await getEntries(range);
+    const clientEntries = entries.filter(e => e.client_id === args.client_id);
+    const billable = clientEntries.filter(e => e.billable);
+    const nonBillableSeconds = calculateTotalDuration(clientEntries.filter(e => !e.billable));
+    const report = generateWeeklyReport(range.start, range.end, billable, settings);
+    return invoiceDraftPrompt(
+      client?.name || `Client ${args.client_id}`,
+      { ...report, ...describeDataLimit(limited) },
+      secondsToHours(nonBillableSeconds)
+    );
+  }
+  
+  const range = getDateRange(promptArgs?.date || (name === 'standup_summary' ? 'yesterday' : 'today'), settings);
+  const { entries, limited } = await getEntries(range);
+  const firstDay = toZonedDate(range.start, timeZone);
+  const lastDay = toZonedDate(new Date(range.end.getTime() - 1), timeZone);
+  const report = {
+    ...generateDailyReport(firstDay === lastDay ? firstDay : `${firstDay}..${lastDay}`, entries),
+    ...describeDataLimit(limited)
+  };
+  
+  switch (name) {
+    case 'end_of_day_review':
+      return endOfDayReviewPrompt(report, findTimelineGaps(entries, timeZone));
+    case 'fill_timeline_gaps':
+      return fillGapsPrompt(report, findTimelineGaps(entries, timeZone), timeZone);
+    default:
+      return standupPrompt(report);
+  }
+}
+
+// MCP server with every handler registered. stdio uses one; the HTTP
+// transport creates one per session.
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'mcp-toggl',
+      version: VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+      },
+    }
+  );
+  
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools };
+  });
+  
+  server.setRequestHandler(CallToolRequestSchema, callTool);
+  
+  // Plain URIs read the default account. Other accounts list their fixed
+  // resources; their workspace collections are reached through the templates.
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    await ensureCache(defaultAccount);
+    const workspaces = await defaultAccount.cache.getWorkspaces();
+    const otherAccounts = Array.from(accounts.values()).filter(account => account !== defaultAccount);
+    return {
+      resources: [
+        ...STATIC_RESOURCES,
+        ...workspaces.map(workspace => workspaceResources(workspace)).flat(),
+        ...otherAccounts.flatMap(account => accountResources(account.name))
+      ]
+    };
+  });
+  
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: [...RESOURCE_TEMPLATES, ...ACCOUNT_RESOURCE_TEMPLATES] };
+  });
+  
+  // Errors are returned as JSON-RPC errors, since resources have no error content
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    return {
+      contents: [{
+        uri,
+        mimeType: RESOURCE_MIME_TYPE,
+        text: JSON.stringify(await readResource(uri), null, 2)
+      }]
+    };
+  });
+  
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const resource = parseResourceUri(uri);  // Unknown URIs get the usual error
+    if (resource.kind !== 'timer') {
+      throw new Error(`Updates are only sent for ${TIMER_RESOURCE_URI} and its per-account variants`);
+    }
+    
+    const account = getAccount(resource.account);
+    if (!timerSubscriptions.has(server)) {
+      timerSubscriptions.set(server, new Set());
+    }
+    timerSubscriptions.get(server)!.add(uri);
+    if (!lastTimerStates.has(account)) {
+      // Baseline for the first poll, so it only reports real changes
+      lastTimerStates.set(account, timerState(await account.api.getCurrentTimeEntry()));
+    }
+    startTimerPoll();
+    return {};
+  });
+  
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    unsubscribeTimer(server, request.params.uri);
+    return {};
+  });
+  
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+  
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+  
+  server.onclose = () => unsubscribeTimer(server);
+  return server;
+}
 
 // Start the server
 async function main() {
+  if (transportMode === 'http') {
+    const httpServer = await startHttpServer({
+      host: httpHost,
+      port: httpPort,
+      version: VERSION,
+      token: httpToken,
+      sessionIdleTimeout: httpSessionTimeout,
+      createServer
+    });
+    const address = httpServer.address();
+    const port = address && typeof address === 'object' ? address.port : httpPort;
+    const host = httpHost.includes(':') ? `[${httpHost}]` : httpHost;
+    console.error(`Toggl MCP server listening on http://${host}:${port}${MCP_PATH}`);
+    return;
+  }
+  
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error('Toggl MCP server running');
 }
 
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  endOfDayReviewPrompt,
+  fillGapsPrompt,
+  findTimelineGaps,
+  invoiceDraftPrompt,
+  standupPrompt
+} from './prompts.js';
+import { generateDailyReport, generateWeeklyReport } from './aggregation.js';
+import { getDayRange } from './utils.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import type { HydratedTimeEntry } from './types.js';
+
+function entry(id: number, start: string, duration: number, extra: Partial<HydratedTimeEntry> = {}): HydratedTimeEntry {
+  return { id, workspace_id: 1, workspace_name: 'Agency', start, duration, billable: false, tags: [], ...extra } as HydratedTimeEntry;
+}
+
+function text(prompt: GetPromptResult): string {
+  const content = prompt.messages[0].content;
+  assert.equal(content.type, 'text');
+  return content.type === 'text' ? content.text : '';
+}
+
+test('overlapping entries extend the covered time instead of producing gaps', () => {
+  const gaps = findTimelineGaps([
+    entry(3, '2026-10-05T13:00:00Z', 3600),
+    entry(1, '2026-10-05T09:00:00Z', 3 * 3600),  // 09:00-12:00
+    entry(2, '2026-10-05T10:00:00Z', 1800),      // inside the first entry
+    entry(4, '2026-10-05T13:30:00Z', 3600),      // overlaps the 13:00 entry
+    entry(5, '2026-10-05T14:40:00Z', 600)        // 10 minutes after the last one, a break
+  ], 'UTC');
+
+  assert.deepEqual(gaps, [{ start: '12:00:00', end: '13:00:00', minutes: 60 }]);
+});
+
+test('gaps are reported only between entries, in the report time zone', () => {
+  const entries = [
+    entry(1, '2026-10-05T13:00:00Z', 1800),
+    entry(2, '2026-10-05T13:44:00Z', 1800),
+    entry(3, '2026-10-05T15:00:00Z', 1800)
+  ];
+  assert.deepEqual(findTimelineGaps(entries, 'America/New_York'), [
+    { start: '10:14:00', end: '11:00:00', minutes: 46 }
+  ]);
+  assert.deepEqual(findTimelineGaps(entries, 'UTC', 10), [
+    { start: '13:30:00', end: '13:44:00', minutes: 14 },
+    { start: '14:14:00', end: '15:00:00', minutes: 46 }
+  ]);
+  assert.deepEqual(findTimelineGaps([entry(1, '2026-10-05T09:00:00Z', 1800)], 'UTC'), []);
+  assert.deepEqual(findTimelineGaps([], 'UTC'), []);
+});
+
+test('a running entry covers the time up to now', t => {
+  t.mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-10-05T12:00:00Z') });
+  const gaps = findTimelineGaps([
+    entry(1, '2026-10-05T09:00:00Z', -1, { stop: undefined }),
+    entry(2, '2026-10-05T11:00:00Z', 1800),
+    entry(3, '2026-10-05T13:00:00Z', 1800)
+  ], 'UTC');
+  assert.deepEqual(gaps, [{ start: '12:00:00', end: '13:00:00', minutes: 60 }]);
+});
+
+test('prompt builders embed the report, gaps and context', () => {
+  const entries = [
+    entry(1, '2026-10-05T09:00:00Z', 3600, { description: 'Homepage', project_name: 'Website' }),
+    entry(2, '2026-10-05T11:00:00Z', 1800, { description: 'Inbox' })
+  ];
+  const report = generateDailyReport('2026-10-05', entries);
+  const gaps = findTimelineGaps(entries, 'UTC');
+
+  const review = endOfDayReviewPrompt(report, gaps);
+  assert.equal(review.description, 'End-of-day review for 2026-10-05');
+  assert.match(text(review), /"start": "10:00:00",\s+"end": "11:00:00",\s+"minutes": 60/);
+  assert.match(text(review), /"description": "Homepage"/);
+
+  const fill = fillGapsPrompt(report, gaps, 'Europe/Berlin');
+  assert.match(text(fill), /times are Europe\/Berlin/);
+  assert.match(text(fill), /toggl_create_entry/);
+
+  const standup = standupPrompt(report);
+  assert.equal(standup.description, 'Standup summary from 2026-10-05');
+  assert.match(text(standup), /"total_hours": 1\.5/);
+
+  const week = getDayRange('2026-10-05', '2026-10-11', 'UTC');
+  const invoice = invoiceDraftPrompt('Acme', generateWeeklyReport(week.start, week.end, [
+    entry(3, '2026-10-06T09:00:00Z', 7200, { billable: true, client_name: 'Acme' })
+  ]), 1.25);
+  assert.equal(invoice.description, 'Invoice draft for Acme, 2026-10-05 to 2026-10-11');
+  assert.match(text(invoice), /1\.25 non-billable hours for this client were left out/);
+});
@@ -0,0 +1,158 @@
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import type { DailyReport, HydratedTimeEntry, WeeklyReport } from './types.js';
+import { toZonedTime } from './utils.js';
+
+// Shared by every prompt, like the account argument on every tool
+const ACCOUNT_ARGUMENT = { name: 'account', description: 'Account profile to use (default: the default account)' };
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'end_of_day_review',
+    description: 'Review a day\'s timesheet for gaps, vague descriptions and missing projects before it is submitted',
+    arguments: [
+      { name: 'date', description: 'Day to review, YYYY-MM-DD or e.g. "yesterday" (default: today)' },
+      { name: 'workspace', description: 'Workspace name or ID (default: all workspaces)' },
+      ACCOUNT_ARGUMENT
+    ]
+  },
+  {
+    name: 'weekly_invoice_draft',
+    description: 'Draft invoice line items for a client from billable time, grouped by project and task',
+    arguments: [
+      { name: 'client', description: 'Client name or ID', required: true },
+      { name: 'period', description: 'Period to invoice, e.g. "last week" or "2026-09-01..2026-09-30" (default: last week)' },
+      { name: 'workspace', description: 'Workspace name or ID (default: the account default workspace, e.g. TOGGL_DEFAULT_WORKSPACE_ID)' },
+      ACCOUNT_ARGUMENT
+    ]
+  },
+  {
+    name: 'fill_timeline_gaps',
+    description: 'Find untracked gaps between a day\'s time entries and suggest entries to fill them',
+    arguments: [
+      { name: 'date', description: 'Day to check, YYYY-MM-DD or e.g. "yesterday" (default: today)' },
+      { name: 'workspace', description: 'Workspace name or ID (default: all workspaces)' },
+      ACCOUNT_ARGUMENT
+    ]
+  },
+  {
+    name: 'standup_summary',
+    description: 'Standup notes from yesterday\'s time entries',
+    arguments: [
+      { name: 'date', description: 'Day to summarize, YYYY-MM-DD (default: yesterday)' },
+      { name: 'workspace', description: 'Workspace name or ID (default: all workspaces)' },
+      ACCOUNT_ARGUMENT
+    ]
+  }
+];
+
+// Gaps shorter than this are treated as breaks between tasks
+const MIN_GAP_MINUTES = 15;
+
+export interface TimelineGap {
+  start: string;  // HH:MM:SS in the report time zone
+  end: string;
+  minutes: number;
+}
+
+// Untracked stretches between consecutive entries. Overlapping entries
+// extend the covered time rather than producing negative gaps.
+export function findTimelineGaps(
+  entries: HydratedTimeEntry[],
+  timeZone: string,
+  minMinutes = MIN_GAP_MINUTES
+): TimelineGap[] {
+  const spans = entries
+    .map(entry => {
+      const start = new Date(entry.start).getTime();
+      const stop = entry.duration < 0 ? Date.now() : start + entry.duration * 1000;
+      return { start, stop };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const gaps: TimelineGap[] = [];
+  let coveredUntil = spans[0]?.stop ?? 0;
+  spans.slice(1).forEach(span => {
+    const minutes = Math.floor((span.start - coveredUntil) / 60000);
+    if (minutes >= minMinutes) {
+      gaps.push({
+        start: toZonedTime(new Date(coveredUntil), timeZone),
+        end: toZonedTime(new Date(span.start), timeZone),
+        minutes
+      });
+    }
+    coveredUntil = Math.max(coveredUntil, span.stop);
+  });
+  return gaps;
+}
+
+function dataBlock(label: string, data: unknown): string {
+  return `${label}:\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+}
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }]
+  };
+}
+
+export function endOfDayReviewPrompt(report: DailyReport, gaps: TimelineGap[]): GetPromptResult {
+  return userPrompt(`End-of-day review for ${report.date}`, [
+    `Review my Toggl timesheet for ${report.date} before I submit it.`,
+    '',
+    'Check for:',
+    '- Entries without a project, or with empty or vague descriptions ("work", "misc")',
+    '- Untracked gaps during the working day (listed below)',
+    '- Billable flags that look wrong for the project or client',
+    '- A timer still running that should have been stopped',
+    '',
+    'Start with the total hours, then list each issue with the entry ID and a suggested fix. ' +
+      'Ask before changing anything; fixes can be applied with toggl_update_time_entry or toggl_create_entry.',
+    '',
+    dataBlock('Daily report', report),
+    '',
+    dataBlock(`Gaps of ${MIN_GAP_MINUTES} minutes or more`, gaps)
+  ].join('\n'));
+}
+
+export function invoiceDraftPrompt(clientName: string, report: WeeklyReport, nonBillableHours: number): GetPromptResult {
+  return userPrompt(`Invoice draft for ${clientName}, ${report.week_start} to ${report.week_end}`, [
+    `Draft invoice line items for ${clientName} covering ${report.week_start} to ${report.week_end}.`,
+    '',
+    '- One line per project, with task-level detail where tasks are set',
+    '- Hours rounded to two decimals, the hourly rate and the amount for each line',
+    '- Totals per currency; never add amounts in different currencies together',
+    '- A short, client-friendly summary of the work from the entry descriptions',
+    '',
+    `Only billable time is included below. ${nonBillableHours} non-billable hours for this client were left out. ` +
+      'Flag any project without an hourly rate instead of guessing one.',
+    '',
+    dataBlock('Billable time report', report)
+  ].join('\n'));
+}
+
+export function fillGapsPrompt(report: DailyReport, gaps: TimelineGap[], timeZone: string): GetPromptResult {
+  return userPrompt(`Timeline gaps for ${report.date}`, [
+    `Help me fill the untracked gaps in my Toggl timeline for ${report.date} (times are ${timeZone}).`,
+    '',
+    'For each gap, suggest what I was probably working on from the entries around it, with a project and description. ' +
+      'Also ask whether time before the first entry or after the last one should be tracked.',
+    'Once I confirm a suggestion, create it with toggl_create_entry.',
+    '',
+    dataBlock(`Gaps of ${MIN_GAP_MINUTES} minutes or more`, gaps),
+    '',
+    dataBlock('Entries for the day', report)
+  ].join('\n'));
+}
+
+export function standupPrompt(report: DailyReport): GetPromptResult {
+  return userPrompt(`Standup summary from ${report.date}`, [
+    `Write my standup update from the time I tracked on ${report.date}.`,
+    '',
+    '- "Yesterday": 3 to 5 bullets grouped by project, most time first, in plain language',
+    '- Mention anything still in progress (a running timer or a task that continued across several entries)',
+    '- Leave out hours and internal IDs unless asked',
+    '',
+    dataBlock('Daily report', report)
+  ].join('\n'));
+}
@@ -0,0 +1,150 @@
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+export const RESOURCE_MIME_TYPE = 'application/json';
+
+// The one resource that supports subscriptions
+export const TIMER_RESOURCE_URI = 'toggl://timer/current';
+
+// Fixed resources, listed before the per-workspace ones
+export const STATIC_RESOURCES: Resource[] = [
+  {
+    uri: 'toggl://workspaces',
+    name: 'Workspaces',
+    description: 'Workspaces you belong to, with currency and default rates',
+    mimeType: RESOURCE_MIME_TYPE
+  },
+  {
+    uri: TIMER_RESOURCE_URI,
+    name: 'Running timer',
+    description: 'The currently running time entry, with project, client and tag names. Subscribe for updates when it starts, stops or changes',
+    mimeType: RESOURCE_MIME_TYPE
+  },
+  {
+    uri: 'toggl://reports/week/0',
+    name: 'This week',
+    description: 'Weekly report for the current week',
+    mimeType: RESOURCE_MIME_TYPE
+  },
+  {
+    uri: 'toggl://reports/month/0',
+    name: 'This month',
+    description: 'Monthly report for the current month',
+    mimeType: RESOURCE_MIME_TYPE
+  }
+];
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'toggl://workspace/{workspace_id}/projects',
+    name: 'Workspace projects',
+    description: 'Projects in a workspace with client names, rates and billable flags',
+    mimeType: RESOURCE_MIME_TYPE
+  },
+  {
+    uriTemplate: 'toggl://workspace/{workspace_id}/clients',
+    name: 'Workspace clients',
+    description: 'Clients in a workspace',
+    mimeType: RESOURCE_MIME_TYPE
+  },
+  {
+    uriTemplate: 'toggl://workspace/{workspace_id}/tags',
+    name: 'Workspace tags',
+    description: 'Tags in a workspace',
+    mimeType: RESOURCE_MIME_TYPE
+  },
+  {
+    uriTemplate: 'toggl://reports/week/{offset}',
+    name: 'Weekly report',
+    description: 'Weekly report by offset from the current week (0 = this week, -1 = last week)',
+    mimeType: RESOURCE_MIME_TYPE
+  },
+  {
+    uriTemplate: 'toggl://reports/month/{offset}',
+    name: 'Monthly report',
+    description: 'Monthly report with previous-month comparison by offset from the current month (0 = this month, -1 = last month)',
+    mimeType: RESOURCE_MIME_TYPE
+  }
+];
+
+// Resources of a named account live under toggl://account/{account}/, the
+// plain URIs read the default account
+const ACCOUNT_URI = /^toggl:\/\/account\/([\w.-]+)\/(.+)$/;
+
+// The same resource for a named account, or unchanged for the default one
+export function accountResourceUri(uri: string, account?: string): string {
+  return account ? uri.replace(/^toggl:\/\//, `toggl://account/${account}/`) : uri;
+}
+
+// Every resource is also available per account; static resources become
+// templates too, since the account is a parameter
+export const ACCOUNT_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  ...STATIC_RESOURCES.filter(resource => !resource.uri.startsWith('toggl://reports/')),
+  ...RESOURCE_TEMPLATES.map(({ uriTemplate, ...template }) => ({ ...template, uri: uriTemplate }))
+].map(({ uri, name, description, mimeType }) => ({
+  uriTemplate: accountResourceUri(uri, '{account}'),
+  name: `${name} (account)`,
+  description: `For a configured account by name. ${description}`,
+  mimeType
+}));
+
+export type ResourceRequest = { account?: string } & (
+  | { kind: 'workspaces' }
+  | { kind: 'timer' }
+  | { kind: 'projects' | 'clients' | 'tags'; workspaceId: number }
+  | { kind: 'week-report' | 'month-report'; offset: number }
+);
+
+// Parse a toggl:// URI into what it refers to and which account it reads
+export function parseResourceUri(uri: string): ResourceRequest {
+  const accountMatch = uri.match(ACCOUNT_URI);
+  if (accountMatch) {
+    return { ...parseAccountResourceUri(`toggl://${accountMatch[2]}`, uri), account: accountMatch[1] };
+  }
+  return parseAccountResourceUri(uri, uri);
+}
+
+function parseAccountResourceUri(uri: string, original: string): ResourceRequest {
+  if (uri === 'toggl://workspaces') {
+    return { kind: 'workspaces' };
+  }
+  if (uri === TIMER_RESOURCE_URI) {
+    return { kind: 'timer' };
+  }
+
+  const workspaceMatch = uri.match(/^toggl:\/\/workspace\/(\d+)\/(projects|clients|tags)$/);
+  if (workspaceMatch) {
+    return {
+      kind: workspaceMatch[2] as 'projects' | 'clients' | 'tags',
+      workspaceId: Number(workspaceMatch[1])
+    };
+  }
+
+  const reportMatch = uri.match(/^toggl:\/\/reports\/(week|month)\/(-?\d+)$/);
+  if (reportMatch) {
+    return {
+      kind: reportMatch[1] === 'week' ? 'week-report' : 'month-report',
+      offset: Number(reportMatch[2])
+    };
+  }
+
+  throw new Error(`Unknown resource: ${original}`);
+}
+
+// Concrete URIs for a workspace's collections, listed alongside the templates
+// so clients without template support can still attach them
+export function workspaceResources(workspace: { id: number; name: string }, account?: string): Resource[] {
+  return (['projects', 'clients', 'tags'] as const).map(kind => ({
+    uri: accountResourceUri(`toggl://workspace/${workspace.id}/${kind}`, account),
+    name: account ? `${account}: ${workspace.name} ${kind}` : `${workspace.name} ${kind}`,
+    mimeType: RESOURCE_MIME_TYPE
+  }));
+}
+
+// The fixed resources of a named account
+export function accountResources(account: string): Resource[] {
+  return STATIC_RESOURCES.map(resource => ({
+    ...resource,
+    uri: accountResourceUri(resource.uri, account),
+    name: `${account}: ${resource.name}`
+  }));
+}
@@ -0,0 +1,150 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { FakeTogglSeed } from './fake-toggl.js';
+import { startServer, type ServerHarness } from './test-harness.js';
+
+// MCP tools end to end against the fake Toggl
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function hoursAgo(hours: number): string {
+  return new Date(Date.now() - hours * HOUR_MS).toISOString();
+}
+
+const seed: FakeTogglSeed = {
+  clients: [{ id: 10, workspace_id: 1, name: 'Globex' }],
+  projects: [
+    { id: 100, workspace_id: 1, client_id: 10, name: 'Website Redesign', billable: true, rate: 100, currency: 'USD', active: true }
+  ],
+  users: [{ id: 2, email: 'ann@example.com', fullname: 'Ann Teammate' }],
+  tags: [
+    { id: 300, workspace_id: 1, name: 'meeting' },
+    { id: 301, workspace_id: 1, name: 'mtg' },
+    { id: 302, workspace_id: 1, name: 'internal' }
+  ],
+  timeEntries: [
+    {
+      id: 400, workspace_id: 1, project_id: 100, user_id: 1, start: hoursAgo(3), stop: hoursAgo(2),
+      duration: 3600, description: 'Mockups', billable: true, tags: ['meeting'], tag_ids: [300]
+    },
+    // Older than any default window, and a teammate's entry with tag ids only
+    { id: 410, workspace_id: 1, user_id: 1, start: hoursAgo(24 * 400), duration: 600, tags: ['mtg', 'internal'], tag_ids: [301, 302] },
+    { id: 411, workspace_id: 1, user_id: 2, start: hoursAgo(5), duration: 600, tag_ids: [301] }
+  ]
+};
+
+let server: ServerHarness;
+
+before(async () => {
+  server = await startServer(seed);
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('lists tools', async () => {
+  const { tools } = await server.client.listTools();
+  const names = tools.map(t => t.name);
+  assert.ok(names.includes('toggl_start_timer'));
+  assert.ok(names.includes('toggl_get_time_entries'));
+});
+
+test('lists workspaces and projects from the fake', async () => {
+  const workspaces = await server.call('toggl_list_workspaces');
+  assert.equal(workspaces.workspaces[0].name, 'Fake Workspace');
+
+  const projects = await server.call('toggl_list_projects', { workspace_id: 1 });
+  assert.equal(projects.projects[0].name, 'Website Redesign');
+});
+
+test('returns hydrated time entries', async () => {
+  const result = await server.call('toggl_get_time_entries', { period: 'today' });
+  const entry = result.entries.find((e: any) => e.id === 400);
+  assert.equal(entry.project_name, 'Website Redesign');
+  assert.equal(entry.client_name, 'Globex');
+});
+
+test('renders time entries as a table', async () => {
+  const table = await server.call('toggl_get_time_entries', { start_date: '2000-01-01', end_date: '2100-01-01', format: 'markdown' });
+  assert.match(table, /^### Time Entries/);
+  assert.match(table, /\| Website Redesign \| Globex \|/);
+});
+
+test('starts and stops a timer', async () => {
+  const started = await server.call('toggl_start_timer', { description: 'Writing tests', project_id: 100 });
+  assert.equal(server.fake.timeEntries.find(e => e.duration < 0)?.id, started.entry.id);
+
+  await server.call('toggl_stop_timer');
+  assert.equal(server.fake.timeEntries.some(e => e.duration < 0), false);
+});
+
+test('account resource URIs read and notify for that account', async () => {
+  const read = async (uri: string) => {
+    const { contents } = await server.client.readResource({ uri });
+    return JSON.parse((contents[0] as { text: string }).text);
+  };
+  assert.equal((await read('toggl://account/default/workspaces')).workspaces[0].name, 'Fake Workspace');
+  await assert.rejects(read('toggl://account/nobody/workspaces'), /nobody/);
+
+  const updated: string[] = [];
+  server.client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+    updated.push(notification.params.uri);
+  });
+  await server.client.subscribeResource({ uri: 'toggl://account/default/timer/current' });
+  await server.call('toggl_start_timer', { description: 'Subscribed' });
+  await server.call('toggl_stop_timer');
+  await server.client.unsubscribeResource({ uri: 'toggl://account/default/timer/current' });
+  assert.deepEqual(updated, ['toggl://account/default/timer/current', 'toggl://account/default/timer/current']);
+});
+
+test('tools accept names in place of ids', async () => {
+  const started = await server.call('toggl_start_timer', {
+    description: 'By name', workspace_name: 'fake workspace', project_name: 'redesign'
+  });
+  assert.equal(started.entry.project_id, 100);
+  await server.call('toggl_stop_timer');
+
+  await assert.rejects(server.call('toggl_start_timer', { project_name: 'Mobile App' }), /No project matching "Mobile App"/);
+});
+
+test('date arguments accept periods and reject reversed or invalid ranges', async () => {
+  const report = await server.call('toggl_daily_report', { date: 'yesterday' });
+  assert.match(report.date, /^\d{4}-\d{2}-\d{2}$/);
+
+  await assert.rejects(
+    server.call('toggl_get_time_entries', { start_date: '2026-10-10', end_date: '2026-10-01' }),
+    /end_date \(2026-10-01\) is before start_date \(2026-10-10\)/
+  );
+  await assert.rejects(server.call('toggl_daily_report', { date: '2026-02-30' }), /Unrecognized period "2026-02-30"/);
+  await assert.rejects(server.call('toggl_get_time_entries', { start_date: 'soon' }), /Invalid start_date/);
+});
+
+test('tool errors come back as error results', async () => {
+  await assert.rejects(server.call('toggl_list_projects', { account: 'nobody' }), /nobody/);
+});
+
+test('merging tags rewrites all history and members before deleting the source', async () => {
+  await assert.rejects(
+    server.call('toggl_merge_tags', { source_tag_id: 301, target_tag_id: 300, delete_source: true, start_date: '2026-01-01' }),
+    /full history/
+  );
+
+  const result = await server.call('toggl_merge_tags', { source_tag_id: 301, target_tag_id: 300, delete_source: true });
+  assert.deepEqual(result.updated_entry_ids.sort(), [410, 411]);
+  assert.equal(result.source_deleted, true);
+
+  const entry = (id: number) => server.fake.timeEntries.find(e => e.id === id);
+  assert.deepEqual(entry(410)?.tag_ids, [300, 302]);
+  assert.deepEqual(entry(411)?.tag_ids, [300]);
+  assert.equal(server.fake.tags.some(t => t.id === 301), false);
+});
+
+test('merging tags searches history from the organization creation date', async () => {
+  const before = server.fake.requests.length;
+  await server.call('toggl_merge_tags', { source_tag_id: 302, target_tag_id: 300 });
+  const searches = server.fake.requests.slice(before).filter(r => r.path.endsWith('/search/time_entries'));
+  assert.ok(searches.length > 0 && searches.length <= 8);
+  assert.equal(searches.at(-1)?.body.start_date, '2020-01-01');
+});
@@ -0,0 +1,60 @@
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { FakeToggl, type FakeTogglSeed } from './fake-toggl.js';
+
+// Runs the real MCP server over stdio against an HTTP FakeToggl, for the
+// end-to-end tests. Not part of the build.
+
+const SERVER_ENTRY = fileURLToPath(new URL('./index.ts', import.meta.url));
+
+export interface ServerHarness {
+  fake: FakeToggl;
+  client: Client;
+  call: (name: string, args?: Record<string, unknown>) => Promise<any>;
+  close: () => Promise<void>;
+}
+
+// Start a fake Toggl and an MCP server pointed at it. Tool results are parsed
+// from their JSON text; tool errors ({ error: true }) reject with the message.
+export async function startServer(seed: FakeTogglSeed, env: Record<string, string> = {}): Promise<ServerHarness> {
+  const fake = new FakeToggl(seed);
+  const listening = await fake.listen();
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ['--import', 'tsx', SERVER_ENTRY],
+    env: {
+      PATH: process.env.PATH ?? '',
+      TOGGL_API_KEY: 'test-token',
+      TOGGL_API_BASE_URL: listening.baseUrl,
+      TOGGL_DEFAULT_WORKSPACE_ID: '1',
+      ...env
+    },
+    stderr: 'ignore'
+  });
+  const client = new Client({ name: 'mcp-toggl-tests', version: '0.0.0' });
+  await client.connect(transport);
+
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    const text = (result.content as { type: string; text: string }[])[0]?.text ?? '';
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return text;
+    }
+    if (data?.error === true) throw new Error(data.message);
+    return data;
+  };
+
+  return {
+    fake,
+    client,
+    call,
+    close: async () => {
+      await client.close();
+      await listening.close();
+    }
+  };
+}
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { renderTimesheet, timesheetFilename, writeTimesheet } from './timesheet-export.js';
+import type { HydratedTimeEntry } from './types.js';
+
+const options = { timeZone: 'UTC', startDate: '2026-10-01', endDate: '2026-10-31' };
+
+function entry(id: number, extra: Partial<HydratedTimeEntry> = {}): HydratedTimeEntry {
+  return {
+    id, workspace_id: 1, workspace_name: 'Agency', start: '2026-10-05T09:00:00Z', stop: '2026-10-05T10:30:00Z',
+    duration: 5400, billable: false, tags: [], ...extra
+  } as HydratedTimeEntry;
+}
+
+test('ics escapes text and folds long lines without splitting characters', () => {
+  const description = 'Café planning; budget, scope\\risks\nand a long tail ' + 'é'.repeat(60);
+  const { content } = renderTimesheet([entry(1, { description, tags: ['a,b'] })], 'ics', options);
+  const lines = content.split('\r\n');
+
+  for (const line of lines) {
+    assert.ok(Buffer.byteLength(line) <= 75, `line longer than 75 octets: ${line}`);
+  }
+  const unfolded = content.replace(/\r\n /g, '');
+  assert.ok(unfolded.includes(
+    `SUMMARY:Café planning\\; budget\\, scope\\\\risks\\nand a long tail ${'é'.repeat(60)}\r\n`
+  ));
+  assert.ok(unfolded.includes('CATEGORIES:a\\,b\r\n'));
+  assert.ok(unfolded.includes('DTSTART:20261005T090000Z\r\nDTEND:20261005T103000Z\r\n'));
+  assert.ok(lines.some(line => line.startsWith(' ')), 'expected a folded line');
+});
+
+test('csv exports prefix formula-like text and skip running entries', () => {
+  const rendered = renderTimesheet([
+    entry(1, { description: '=HYPERLINK("http://evil")', project_name: '+Ops' }),
+    entry(2, { start: '2026-10-05T11:00:00Z', stop: undefined, duration: -1760000000 })
+  ], 'csv', options);
+
+  const [header, row] = rendered.content.trimEnd().split('\r\n');
+  assert.ok(header.startsWith('Date,Start,Stop,Hours,Duration'));
+  assert.ok(row.includes(`,'+Ops,`));
+  assert.ok(row.includes(`,"'=HYPERLINK(""http://evil"")",`));
+  assert.equal(rendered.entryCount, 1);
+  assert.equal(rendered.skippedRunning, 1);
+});
+
+test('file names are reduced to a safe base name with the format extension', () => {
+  assert.equal(timesheetFilename('ics', options, '../../etc/passwd'), 'passwd.ics');
+  assert.equal(timesheetFilename('csv', options, 'October report.CSV'), 'October-report.CSV');
+  assert.equal(timesheetFilename('xlsx-csv', options, '.hidden'), 'hidden.csv');
+  assert.equal(timesheetFilename('json', options), 'toggl-timesheet-2026-10-01_2026-10-31.json');
+  assert.throws(() => timesheetFilename('csv', options, '...'), /Invalid export file name/);
+});
+
+test('writes replace earlier exports without leaving temp files behind', t => {
+  const dir = mkdtempSync(join(tmpdir(), 'toggl-export-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  writeFileSync(join(dir, 'october.json'), 'old export');
+
+  const rendered = renderTimesheet([entry(1)], 'json', options);
+  const result = writeTimesheet(dir, 'october.json', 'json', rendered);
+
+  const written = readFileSync(result.path);
+  assert.equal(written.toString('utf8'), rendered.content);
+  assert.equal(result.bytes, written.length);
+  assert.equal(result.sha256, createHash('sha256').update(written).digest('hex'));
+  assert.deepEqual(readdirSync(dir), ['october.json']);
+});
@@ -0,0 +1,232 @@
+import { createHash } from 'node:crypto';
+import { mkdirSync, renameSync, writeFileSync } from 'node:fs';
+import { basename, join, resolve } from 'node:path';
+import type { HydratedTimeEntry, TimesheetExportResult, TimesheetFormat } from './types.js';
+import { csvRow, type Cell } from './formatters.js';
+import { secondsToHours, toZonedDate, toZonedTime } from './utils.js';
+
+export const TIMESHEET_FORMATS: TimesheetFormat[] = ['csv', 'xlsx-csv', 'json', 'ics'];
+
+const EXTENSIONS: Record<TimesheetFormat, string> = {
+  csv: '.csv',
+  'xlsx-csv': '.csv',
+  json: '.json',
+  ics: '.ics'
+};
+
+export interface TimesheetOptions {
+  timeZone: string;
+  startDate: string;  // YYYY-MM-DD, inclusive
+  endDate: string;
+}
+
+// One timesheet line per finished entry, with times in the report time zone
+interface TimesheetRow {
+  id: number;
+  date: string;
+  start: string;
+  stop: string;
+  start_iso: string;
+  stop_iso: string;
+  hours: number;
+  duration_seconds: number;
+  workspace: string;
+  project: string | null;
+  client: string | null;
+  task: string | null;
+  description: string;
+  tags: string[];
+  billable: boolean;
+  user: string | null;
+  hourly_rate: number | null;
+  billable_amount: number | null;
+  currency: string | null;
+}
+
+function toRow(entry: HydratedTimeEntry, timeZone: string): TimesheetRow {
+  const start = new Date(entry.start);
+  const stop = entry.stop ? new Date(entry.stop) : new Date(start.getTime() + entry.duration * 1000);
+  const amount = entry.billable && entry.hourly_rate
+    ? Math.round((entry.duration / 3600) * entry.hourly_rate * 100) / 100
+    : null;
+  return {
+    id: entry.id,
+    date: toZonedDate(start, timeZone),
+    start: toZonedTime(start, timeZone),
+    stop: toZonedTime(stop, timeZone),
+    start_iso: start.toISOString(),
+    stop_iso: stop.toISOString(),
+    hours: secondsToHours(entry.duration),
+    duration_seconds: entry.duration,
+    workspace: entry.workspace_name,
+    project: entry.project_name ?? null,
+    client: entry.client_name ?? null,
+    task: entry.task_name ?? null,
+    description: entry.description ?? '',
+    tags: entry.tag_names?.length ? entry.tag_names : entry.tags || [],
+    billable: entry.billable ?? false,
+    user: entry.user_name ?? null,
+    hourly_rate: entry.hourly_rate ?? null,
+    billable_amount: amount,
+    currency: amount !== null ? entry.currency ?? null : null
+  };
+}
+
+const CSV_COLUMNS = [
+  'Date', 'Start', 'Stop', 'Hours', 'Duration', 'Workspace', 'Project', 'Client', 'Task',
+  'Description', 'Tags', 'Billable', 'User', 'Hourly rate', 'Billable amount', 'Currency', 'Entry ID'
+];
+
+// h:mm, which spreadsheets read as a duration
+function clockDuration(seconds: number): string {
+  return `${Math.floor(seconds / 3600)}:${String(Math.floor((seconds % 3600) / 60)).padStart(2, '0')}`;
+}
+
+function csvCells(row: TimesheetRow): Cell[] {
+  return [
+    row.date, row.start, row.stop, row.hours, clockDuration(row.duration_seconds),
+    row.workspace, row.project, row.client, row.task, row.description, row.tags.join(', '),
+    row.billable, row.user, row.hourly_rate, row.billable_amount, row.currency, row.id
+  ];
+}
+
+// iCalendar text escaping (RFC 5545 section 3.3.11)
+function icsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Fold content lines longer than 75 octets, never splitting a character
+function icsLine(line: string): string {
+  const folded: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > (folded.length === 0 ? 75 : 74)) {
+      folded.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  folded.push(current);
+  return folded.join('\r\n ');
+}
+
+function icsTimestamp(iso: string): string {
+  return iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function renderIcs(rows: TimesheetRow[]): string {
+  const stamp = icsTimestamp(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//mcp-toggl//Timesheet Export//EN',
+    'CALSCALE:GREGORIAN'
+  ];
+  rows.forEach(row => {
+    const details = [
+      row.project ? `Project: ${row.project}` : null,
+      row.client ? `Client: ${row.client}` : null,
+      row.task ? `Task: ${row.task}` : null,
+      row.tags.length > 0 ? `Tags: ${row.tags.join(', ')}` : null,
+      `Billable: ${row.billable ? 'yes' : 'no'}`
+    ].filter(Boolean).join('\n');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:toggl-time-entry-${row.id}@mcp-toggl`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsTimestamp(row.start_iso)}`,
+      `DTEND:${icsTimestamp(row.stop_iso)}`,
+      `SUMMARY:${icsText(row.description || row.project || 'Time entry')}`,
+      `DESCRIPTION:${icsText(details)}`,
+      ...(row.tags.length > 0 ? [`CATEGORIES:${row.tags.map(icsText).join(',')}`] : []),
+      'END:VEVENT'
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(icsLine).join('\r\n') + '\r\n';
+}
+
+// Render finished entries, oldest first. xlsx-csv adds a UTF-8 byte order
+// mark so Excel reads accented names correctly.
+export function renderTimesheet(
+  entries: HydratedTimeEntry[],
+  format: TimesheetFormat,
+  options: TimesheetOptions
+): { content: string; entryCount: number; totalSeconds: number; skippedRunning: number } {
+  const rows = entries
+    .filter(entry => entry.duration >= 0)
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .map(entry => toRow(entry, options.timeZone));
+  const totalSeconds = rows.reduce((total, row) => total + row.duration_seconds, 0);
+
+  let content: string;
+  switch (format) {
+    case 'csv':
+    case 'xlsx-csv': {
+      const csv = [csvRow(CSV_COLUMNS), ...rows.map(row => csvRow(csvCells(row)))].join('\r\n') + '\r\n';
+      content = format === 'xlsx-csv' ? `\uFEFF${csv}` : csv;
+      break;
+    }
+    case 'json':
+      content = JSON.stringify({
+        start_date: options.startDate,
+        end_date: options.endDate,
+        time_zone: options.timeZone,
+        exported_at: new Date().toISOString(),
+        entry_count: rows.length,
+        total_hours: secondsToHours(totalSeconds),
+        entries: rows
+      }, null, 2) + '\n';
+      break;
+    case 'ics':
+      content = renderIcs(rows);
+      break;
+  }
+
+  return { content, entryCount: rows.length, totalSeconds, skippedRunning: entries.length - rows.length };
+}
+
+// File name for an export: the requested name reduced to a safe base name
+// with the format's extension, or toggl-timesheet-<start>_<end>
+export function timesheetFilename(format: TimesheetFormat, options: TimesheetOptions, requested?: string): string {
+  const extension = EXTENSIONS[format];
+  const base = requested
+    ? basename(requested).replace(/[^\w.-]+/g, '-').replace(/^[.-]+/, '')
+    : `toggl-timesheet-${options.startDate}_${options.endDate}`;
+  if (!base) {
+    throw new Error(`Invalid export file name "${requested}"`);
+  }
+  return base.toLowerCase().endsWith(extension) ? base : `${base}${extension}`;
+}
+
+// Write a rendered timesheet into the export directory, replacing any
+// earlier export with the same name
+export function writeTimesheet(
+  dir: string,
+  filename: string,
+  format: TimesheetFormat,
+  rendered: ReturnType<typeof renderTimesheet>
+): TimesheetExportResult {
+  const path = resolve(join(dir, filename));
+  const data = Buffer.from(rendered.content, 'utf8');
+
+  mkdirSync(dir, { recursive: true });
+  // Write to a temp file first so a crash never leaves a truncated export
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, data);
+  renameSync(tmpPath, path);
+
+  return {
+    path,
+    format,
+    bytes: data.length,
+    sha256: createHash('sha256').update(data).digest('hex'),
+    entry_count: rendered.entryCount,
+    total_hours: secondsToHours(rendered.totalSeconds),
+    skipped_running: rendered.skippedRunning
+  };
+}
@@ -0,0 +1,132 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TogglAPI, TogglAPIError } from './toggl-api.js';
+import { FakeToggl, FAKE_TOGGL_BASE_URL } from './fake-toggl.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function hoursAgo(hours: number): string {
+  return new Date(Date.now() - hours * HOUR_MS).toISOString();
+}
+
+function setup(seed: ConstructorParameters<typeof FakeToggl>[0] = {}) {
+  const fake = new FakeToggl(seed);
+  const api = new TogglAPI('test-token', { baseUrl: FAKE_TOGGL_BASE_URL, fetch: fake.fetch });
+  return { fake, api };
+}
+
+test('reads workspaces, projects and the current user', async () => {
+  const { api } = setup({
+    projects: [{ id: 100, workspace_id: 1, name: 'Website Redesign', active: true }]
+  });
+
+  const me = await api.getMe();
+  assert.equal(me.fullname, 'Fake User');
+  assert.deepEqual((await api.getWorkspaces()).map(w => w.id), [1]);
+  assert.deepEqual((await api.getProjects(1)).map(p => p.name), ['Website Redesign']);
+});
+
+test('starts and stops a timer', async () => {
+  const { api } = setup();
+
+  const started = await api.startTimer(1, 'Writing tests');
+  assert.ok(started.duration < 0);
+  assert.equal((await api.getCurrentTimeEntry())?.id, started.id);
+
+  const stopped = await api.stopTimer(1, started.id);
+  assert.ok(stopped.duration >= 0);
+  assert.equal(await api.getCurrentTimeEntry(), null);
+});
+
+test('creating an entry with tag names creates the tags', async () => {
+  const { fake, api } = setup();
+
+  const entry = await api.createTimeEntry(1, { start: hoursAgo(2), duration: 3600, tags: ['meeting'] });
+  const tag = fake.tags.find(t => t.name === 'meeting');
+  assert.ok(tag);
+  assert.deepEqual(entry.tag_ids, [tag.id]);
+});
+
+test('pages long ranges and reports refused history', async () => {
+  const timeEntries = Array.from({ length: 5 }, (_, i) => ({
+    id: 500 + i,
+    workspace_id: 1,
+    user_id: 1,
+    start: hoursAgo(24 * i + 12),
+    duration: 600
+  }));
+  const fake = new FakeToggl({ timeEntries, timeEntriesHistoryDays: 3, timeEntriesPageLimit: 2 });
+  const api = new TogglAPI('test-token', {
+    baseUrl: FAKE_TOGGL_BASE_URL,
+    fetch: fake.fetch,
+    timeEntriesWindowDays: 2
+  });
+
+  const result = await api.getTimeEntriesInRange(new Date(Date.now() - 10 * 24 * HOUR_MS), new Date());
+  assert.deepEqual(result.entries.map(e => e.id).sort(), [500, 501]);
+  assert.ok(result.limited);
+});
+
+test('reports API filters by tag across all users', async () => {
+  const { api } = setup({
+    users: [{ id: 2, email: 'ann@example.com', fullname: 'Ann Teammate' }],
+    tags: [{ id: 300, workspace_id: 1, name: 'meeting' }],
+    timeEntries: [
+      { id: 400, workspace_id: 1, user_id: 1, start: hoursAgo(3), duration: 600, tag_ids: [300] },
+      { id: 401, workspace_id: 1, user_id: 2, start: hoursAgo(2), duration: 600, tag_ids: [300] },
+      { id: 402, workspace_id: 1, user_id: 1, start: hoursAgo(1), duration: 600, tag_ids: [] }
+    ]
+  });
+
+  const entries = await api.getDetailedTimeEntries(1, { start_date: '2000-01-01', tag_ids: [300] });
+  assert.deepEqual(entries.map(e => e.id).sort(), [400, 401]);
+});
+
+test('team ranges over a year are searched a year at a time', async () => {
+  const { fake, api } = setup({
+    users: [{ id: 2, email: 'ann@example.com', fullname: 'Ann Teammate' }],
+    timeEntries: [
+      { id: 400, workspace_id: 1, user_id: 2, start: '2024-03-01T09:00:00Z', duration: 600 },
+      { id: 401, workspace_id: 1, user_id: 2, start: '2025-11-01T09:00:00Z', duration: 600 }
+    ]
+  });
+
+  const entries = await api.getTeamTimeEntriesForDateRange(
+    1, new Date('2024-01-01T00:00:00Z'), new Date('2026-01-01T00:00:00Z'), [2], 'UTC'
+  );
+  assert.deepEqual(entries.map(e => e.id).sort(), [400, 401]);
+  const searches = fake.requests
+    .filter(r => r.path.endsWith('/search/time_entries'))
+    .map(r => [r.body.start_date, r.body.end_date]);
+  assert.deepEqual(searches, [['2024-12-31', '2025-12-31'], ['2024-01-01', '2024-12-30']]);
+});
+
+test('wrong tokens are rejected as authentication failures', async () => {
+  const fake = new FakeToggl({ apiToken: 'right-token' });
+  const api = new TogglAPI('wrong-token', { baseUrl: FAKE_TOGGL_BASE_URL, fetch: fake.fetch });
+
+  await assert.rejects(api.getMe(), (error: unknown) =>
+    error instanceof TogglAPIError && error.status === 403
+  );
+});
+
+test('the HTTP fake answers malformed bodies with 400', async () => {
+  const fake = new FakeToggl();
+  const { baseUrl, close } = await fake.listen();
+  try {
+    const response = await fetch(`${baseUrl}/workspaces/1/tags`, {
+      method: 'POST',
+      headers: { Authorization: `Basic ${Buffer.from('token:api_token').toString('base64')}` },
+      body: '{not json'
+    });
+    assert.equal(response.status, 400);
+
+    // Still serving afterwards
+    const workspaces = await fetch(`${baseUrl}/workspaces`, {
+      headers: { Authorization: `Basic ${Buffer.from('token:api_token').toString('base64')}` }
+    });
+    assert.equal(workspaces.status, 200);
+  } finally {
+    await close();
+  }
+});
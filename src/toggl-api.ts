@@ -1,5 +1,7 @@
 import fetch from 'node-fetch';
+import { addDays, getDateRange, getMonthRange, getWeekRange, systemTimeZone, toZonedDate } from './utils.js';
 import type {
+  Organization,
   Workspace,
   Project,
   Client,
@@ -12,14 +14,90 @@ import type {
   CreateProjectRequest,
   UpdateProjectRequest,
   CreateClientRequest,
-  UpdateTimeEntryRequest
+  CreateTaskRequest,
+  UpdateTaskRequest,
+  UpdateTimeEntryRequest,
+  TogglAPIOptions,
+  TimeZoneSettings,
+  TimeEntriesResult,
+  DataLimitation,
+  TogglFetch,
+  TogglFetchResponse,
+  ReportsDetailedRequest,
+  ReportsDetailedRow,
+  ReportsSummaryRequest,
+  ReportsSummaryResponse,
+  ReportsWeeklyRequest,
+  ReportsWeeklyRow
 } from './types.js';
 
+export const DEFAULT_BASE_URL = 'https://api.track.toggl.com/api/v9';
+export const DEFAULT_REPORTS_BASE_URL = 'https://api.track.toggl.com/reports/api/v3';
+
+// Derive the Reports API base from a custom Track API base, so pointing
+// TOGGL_API_BASE_URL at a local fake also routes report calls there.
+function deriveReportsBaseUrl(baseUrl: string): string {
+  if (baseUrl === DEFAULT_BASE_URL) return DEFAULT_REPORTS_BASE_URL;
+  if (baseUrl.endsWith('/api/v9')) {
+    return `${baseUrl.slice(0, -'/api/v9'.length)}/reports/api/v3`;
+  }
+  return `${baseUrl}/reports`;
+}
+
+// Flatten Reports API detailed rows into v9-shaped time entries so they can be
+// hydrated and aggregated like /me/time_entries results
+export function detailedRowsToTimeEntries(workspaceId: number, rows: ReportsDetailedRow[]): TimeEntry[] {
+  return rows.flatMap(row => row.time_entries.map(te => ({
+    id: te.id,
+    workspace_id: workspaceId,
+    project_id: row.project_id ?? undefined,
+    task_id: row.task_id ?? undefined,
+    user_id: row.user_id,
+    billable: row.billable,
+    description: row.description,
+    tag_ids: row.tag_ids,
+    start: te.start,
+    stop: te.stop,
+    duration: te.seconds,
+    at: te.at
+  })));
+}
+
+// /me/time_entries serves a limited history and caps results per request,
+// so long ranges are fetched in windows and paged
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TIME_ENTRIES_WINDOW_DAYS = 31;
+const DEFAULT_TIME_ENTRIES_PAGE_LIMIT = 1000;
+
+// Reports API searches span at most a year, so longer ranges are split
+const REPORTS_MAX_RANGE_DAYS = 366;
+
+// Toggl launched in 2006; searching from here covers a workspace's full history
+export const TOGGL_HISTORY_START = '2006-01-01';
+
+// API error carrying the HTTP status
+export class TogglAPIError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'TogglAPIError';
+  }
+}
+
 export class TogglAPI {
-  private baseUrl = 'https://api.track.toggl.com/api/v9';
+  readonly baseUrl: string;
+  private reportsBaseUrl: string;
+  private fetch: TogglFetch;
   private headers: Record<string, string>;
+  private timeEntriesWindowMs: number;
+  private timeEntriesPageLimit: number;
   
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: TogglAPIOptions = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.reportsBaseUrl = (options.reportsBaseUrl || deriveReportsBaseUrl(this.baseUrl)).replace(/\/+$/, '');
+    this.fetch = options.fetch || (fetch as unknown as TogglFetch);
+    this.timeEntriesWindowMs = (options.timeEntriesWindowDays || DEFAULT_TIME_ENTRIES_WINDOW_DAYS) * DAY_MS;
+    this.timeEntriesPageLimit = options.timeEntriesPageLimit || DEFAULT_TIME_ENTRIES_PAGE_LIMIT;
+    
     // Basic auth: API key as username, 'api_token' as password
     const key = apiKey.trim();
     const auth = Buffer.from(`${key}:api_token`).toString('base64');
@@ -30,18 +108,40 @@ export class TogglAPI {
     };
   }
   
-  // Generic API request method
+  // Generic API request method (Track API v9)
   private async request<T>(
     method: string,
     endpoint: string,
     body?: any,
     retries = 3
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    
+    const { data } = await this.send<T>(method, `${this.baseUrl}${endpoint}`, body, retries);
+    return data;
+  }
+  
+  // Reports API v3 request. Returns the next row number when more pages exist.
+  private async reportsRequest<T>(
+    endpoint: string,
+    body: any
+  ): Promise<{ data: T; nextRowNumber?: number }> {
+    const { data, headers } = await this.send<T>('POST', `${this.reportsBaseUrl}${endpoint}`, body);
+    const nextRow = headers.get('X-Next-Row-Number');
+    return {
+      data,
+      nextRowNumber: nextRow ? parseInt(nextRow) : undefined
+    };
+  }
+  
+  // Shared transport with rate limit handling and retries
+  private async send<T>(
+    method: string,
+    url: string,
+    body?: any,
+    retries = 3
+  ): Promise<{ data: T; headers: TogglFetchResponse['headers'] }> {
     for (let i = 0; i < retries; i++) {
       try {
-        const response = await fetch(url, {
+        const response = await this.fetch(url, {
           method,
           headers: this.headers,
           body: body ? JSON.stringify(body) : undefined
@@ -61,23 +161,26 @@ export class TogglAPI {
           const text = await response.text();
           if (response.status === 401 || response.status === 403) {
             // Normalize common auth failure into a clearer message
-            throw new Error(
+            throw new TogglAPIError(
               `Authentication failed (${response.status}). ` +
               `Verify TOGGL_API_KEY is correct, has no leading/trailing spaces, and is the Toggl Track API token. ` +
-              `Server response: ${text}`
+              `Server response: ${text}`,
+              response.status
             );
           }
-          throw new Error(`Toggl API error (${response.status}): ${text}`);
+          throw new TogglAPIError(`Toggl API error (${response.status}): ${text}`, response.status);
         }
         
         // Handle 204 No Content
         if (response.status === 204) {
-          return {} as T;
+          return { data: {} as T, headers: response.headers };
         }
         
-        return await response.json() as T;
+        return { data: await response.json() as T, headers: response.headers };
       } catch (error) {
         if (i === retries - 1) throw error;
+        // Client errors won't succeed on retry
+        if (error instanceof TogglAPIError && error.status < 500) throw error;
         // Exponential backoff
         await new Promise(resolve => setTimeout(resolve, (i + 1) * 1000));
       }
@@ -91,9 +194,35 @@ export class TogglAPI {
     return this.request<User>('GET', '/me');
   }
   
-  async getUser(_userId: number): Promise<User> {
-    // Note: This might require admin permissions
-    return this.request<User>('GET', `/me`);
+  async getUser(userId: number, workspaceId?: number): Promise<User> {
+    if (workspaceId) {
+      const users = await this.getWorkspaceUsers(workspaceId);
+      const user = users.find(u => u.id === userId);
+      if (user) return user;
+      throw new Error(`User ${userId} not found in workspace ${workspaceId}`);
+    }
+    
+    const me = await this.getMe();
+    if (me.id === userId) return me;
+    
+    // Fallback: search each workspace's member list
+    const workspaces = await this.getWorkspaces();
+    for (const workspace of workspaces) {
+      try {
+        const users = await this.getWorkspaceUsers(workspace.id);
+        const user = users.find(u => u.id === userId);
+        if (user) return user;
+      } catch {
+        // Listing members may require admin rights in this workspace
+        continue;
+      }
+    }
+    throw new Error(`User ${userId} not found`);
+  }
+  
+  // Members of a workspace
+  async getWorkspaceUsers(workspaceId: number): Promise<User[]> {
+    return this.request<User[]>('GET', `/workspaces/${workspaceId}/users`);
   }
   
   // Workspace methods
@@ -105,6 +234,10 @@ export class TogglAPI {
     return this.request<Workspace>('GET', `/workspaces/${workspaceId}`);
   }
   
+  async getOrganization(organizationId: number): Promise<Organization> {
+    return this.request<Organization>('GET', `/organizations/${organizationId}`);
+  }
+  
   // Project methods
   async getProjects(workspaceId: number, active?: 'true' | 'false' | 'both'): Promise<Project[]> {
     const query = active ? `?active=${active}` : '?active=both';
@@ -176,6 +309,23 @@ export class TogglAPI {
     return this.request<Task>('GET', `/workspaces/${workspaceId}/projects/${projectId}/tasks/${taskId}`);
   }
   
+  async createTask(workspaceId: number, projectId: number, task: CreateTaskRequest): Promise<Task> {
+    return this.request<Task>('POST', `/workspaces/${workspaceId}/projects/${projectId}/tasks`, {
+      ...task,
+      active: task.active ?? true,
+      workspace_id: workspaceId,
+      project_id: projectId,
+    });
+  }
+  
+  async updateTask(workspaceId: number, projectId: number, taskId: number, updates: UpdateTaskRequest): Promise<Task> {
+    return this.request<Task>('PUT', `/workspaces/${workspaceId}/projects/${projectId}/tasks/${taskId}`, updates);
+  }
+  
+  async deleteTask(workspaceId: number, projectId: number, taskId: number): Promise<void> {
+    await this.request<void>('DELETE', `/workspaces/${workspaceId}/projects/${projectId}/tasks/${taskId}`);
+  }
+  
   // Tag methods
   async getTags(workspaceId: number): Promise<Tag[]> {
     return this.request<Tag[]>('GET', `/workspaces/${workspaceId}/tags`);
@@ -185,6 +335,39 @@ export class TogglAPI {
     return this.request<Tag>('GET', `/workspaces/${workspaceId}/tags/${tagId}`);
   }
   
+  async createTag(workspaceId: number, name: string): Promise<Tag> {
+    return this.request<Tag>('POST', `/workspaces/${workspaceId}/tags`, {
+      name,
+      workspace_id: workspaceId,
+    });
+  }
+  
+  async updateTag(workspaceId: number, tagId: number, name: string): Promise<Tag> {
+    return this.request<Tag>('PUT', `/workspaces/${workspaceId}/tags/${tagId}`, { name });
+  }
+  
+  async deleteTag(workspaceId: number, tagId: number): Promise<void> {
+    await this.request<void>('DELETE', `/workspaces/${workspaceId}/tags/${tagId}`);
+  }
+  
+  // Entities created, updated or deleted since a Unix timestamp, across all
+  // workspaces. Deleted entities come back with server_deleted_at set.
+  async getProjectsChangedSince(since: number): Promise<Project[]> {
+    return this.request<Project[]>('GET', `/me/projects?since=${since}`);
+  }
+  
+  async getClientsChangedSince(since: number): Promise<Client[]> {
+    return this.request<Client[]>('GET', `/me/clients?since=${since}`);
+  }
+  
+  async getTasksChangedSince(since: number): Promise<Task[]> {
+    return this.request<Task[]>('GET', `/me/tasks?since=${since}`);
+  }
+  
+  async getTagsChangedSince(since: number): Promise<Tag[]> {
+    return this.request<Tag[]>('GET', `/me/tags?since=${since}`);
+  }
+  
   // Time entry methods
   async getTimeEntries(params?: TimeEntriesRequest): Promise<TimeEntry[]> {
     let endpoint = '/me/time_entries';
@@ -251,67 +434,193 @@ export class TogglAPI {
   }
   
   // Bulk operations for efficiency
+  // Entries starting in [startDate, endDate), sent as exact instants so
+  // boundaries follow the caller's time zone rather than UTC days
   async getTimeEntriesForDateRange(startDate: Date, endDate: Date): Promise<TimeEntry[]> {
-    const params: TimeEntriesRequest = {
-      start_date: startDate.toISOString().split('T')[0],
-      end_date: endDate.toISOString().split('T')[0]
-    };
-    
-    return this.getTimeEntries(params);
+    return (await this.getTimeEntriesInRange(startDate, endDate)).entries;
   }
   
-  async getTimeEntriesForToday(): Promise<TimeEntry[]> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+  // Like getTimeEntriesForDateRange, but also reports any part of the range
+  // Toggl refused. Long ranges are fetched newest window first and deduped by id.
+  async getTimeEntriesInRange(startDate: Date, endDate: Date): Promise<TimeEntriesResult> {
+    const start = startDate.getTime();
+    const entries = new Map<number, TimeEntry>();
+    const refused: DataLimitation[] = [];
     
-    return this.getTimeEntriesForDateRange(today, tomorrow);
+    for (let windowEnd = endDate.getTime(); windowEnd > start; windowEnd -= this.timeEntriesWindowMs) {
+      const windowStart = Math.max(start, windowEnd - this.timeEntriesWindowMs);
+      if (!(await this.collectTimeEntries(windowStart, windowEnd, entries, refused))) {
+        // Anything older is outside the available history too
+        if (windowStart > start) {
+          refused.push({
+            start: new Date(start).toISOString(),
+            end: new Date(windowStart).toISOString(),
+            reason: refused[refused.length - 1].reason
+          });
+        }
+        break;
+      }
+    }
+    
+    return {
+      entries: Array.from(entries.values()).sort((a, b) => b.start.localeCompare(a.start)),
+      limited: refused.length > 0
+        ? {
+            start: refused.reduce((min, r) => (r.start < min ? r.start : min), refused[0].start),
+            end: refused.reduce((max, r) => (r.end > max ? r.end : max), refused[0].end),
+            reason: refused[0].reason
+          }
+        : undefined
+    };
   }
   
-  async getTimeEntriesForWeek(weekOffset = 0): Promise<TimeEntry[]> {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    const diff = today.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1); // Adjust for Sunday
-    
-    const monday = new Date(today.setDate(diff));
-    monday.setDate(monday.getDate() + (weekOffset * 7));
-    monday.setHours(0, 0, 0, 0);
-    
-    const sunday = new Date(monday);
-    sunday.setDate(sunday.getDate() + 6);
-    sunday.setHours(23, 59, 59, 999);
-    
-    return this.getTimeEntriesForDateRange(monday, sunday);
+  // Fetch [start, end) into `entries`, paging backwards while requests come
+  // back full. Returns false if Toggl refused any of it as out of range.
+  private async collectTimeEntries(
+    start: number,
+    end: number,
+    entries: Map<number, TimeEntry>,
+    refused: DataLimitation[]
+  ): Promise<boolean> {
+    let pageEnd = end;
+    while (pageEnd > start) {
+      let page: TimeEntry[];
+      try {
+        page = await this.getTimeEntries({
+          start_date: new Date(start).toISOString(),
+          end_date: new Date(pageEnd).toISOString()
+        });
+      } catch (error) {
+        // 400/402: the range is older than this account may read via /me/time_entries
+        if (!(error instanceof TogglAPIError) || (error.status !== 400 && error.status !== 402)) throw error;
+        
+        if (pageEnd - start <= DAY_MS) {
+          refused.push({ start: new Date(start).toISOString(), end: new Date(pageEnd).toISOString(), reason: error.message });
+          return false;
+        }
+        // Bisect to find the oldest part still served, newer half first
+        const mid = start + Math.floor((pageEnd - start) / 2);
+        if (!(await this.collectTimeEntries(mid, pageEnd, entries, refused))) {
+          refused.push({ start: new Date(start).toISOString(), end: new Date(mid).toISOString(), reason: error.message });
+          return false;
+        }
+        return this.collectTimeEntries(start, mid, entries, refused);
+      }
+      
+      page.forEach(entry => entries.set(entry.id, entry));
+      if (page.length < this.timeEntriesPageLimit) return true;
+      
+      // Full page: continue before the oldest entry returned
+      const oldest = Math.min(...page.map(entry => new Date(entry.start).getTime()));
+      if (oldest >= pageEnd) return true;
+      pageEnd = oldest;
+    }
+    return true;
   }
   
-  async getTimeEntriesForMonth(monthOffset = 0): Promise<TimeEntry[]> {
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = today.getMonth() + monthOffset;
-    
-    const firstDay = new Date(year, month, 1);
-    const lastDay = new Date(year, month + 1, 0);
-    
-    return this.getTimeEntriesForDateRange(firstDay, lastDay);
+  // Entries for other workspace members come from the Reports API, since
+  // /me/time_entries only ever returns the authenticated user's entries.
+  // The Reports API takes calendar days in the profile's time zone, and
+  // ranges over a year are searched a year at a time.
+  async getTeamTimeEntriesForDateRange(
+    workspaceId: number,
+    startDate: Date,
+    endDate: Date,
+    userIds?: number[],
+    timeZone: string = systemTimeZone()
+  ): Promise<TimeEntry[]> {
+    // Reports API end dates are inclusive
+    const lastDay = new Date(Math.max(startDate.getTime(), endDate.getTime() - 1));
+    return this.searchTimeEntries(workspaceId, {
+      start_date: toZonedDate(startDate, timeZone),
+      end_date: toZonedDate(lastDay, timeZone),
+      user_ids: userIds
+    });
+  }
+  
+  async getTimeEntriesForToday(settings?: TimeZoneSettings): Promise<TimeEntry[]> {
+    const range = getDateRange('today', settings);
+    return this.getTimeEntriesForDateRange(range.start, range.end);
+  }
+  
+  async getTimeEntriesForWeek(weekOffset = 0, settings?: TimeZoneSettings): Promise<TimeEntry[]> {
+    const range = getWeekRange(weekOffset, settings);
+    return this.getTimeEntriesForDateRange(range.start, range.end);
   }
   
-  // Reports API endpoints (if needed)
-  async getDetailedReport(workspaceId: number, params: any): Promise<any> {
-    // This would use the Reports API v3 if needed
-    // https://api.track.toggl.com/reports/api/v3/workspace/{workspace_id}/search/time_entries
-    const reportsUrl = `https://api.track.toggl.com/reports/api/v3/workspace/${workspaceId}/search/time_entries`;
+  async getTimeEntriesForMonth(monthOffset = 0, settings?: TimeZoneSettings): Promise<TimeEntry[]> {
+    const range = getMonthRange(monthOffset, settings);
+    return this.getTimeEntriesForDateRange(range.start, range.end);
+  }
+  
+  // Reports API v3: detailed time entries for everyone in the workspace.
+  // Follows X-Next-Row-Number until all pages have been fetched.
+  async getDetailedReport(workspaceId: number, params: ReportsDetailedRequest): Promise<ReportsDetailedRow[]> {
+    const rows: ReportsDetailedRow[] = [];
+    let firstRowNumber = params.first_row_number;
     
-    const response = await fetch(reportsUrl, {
-      method: 'POST',
-      headers: this.headers,
-      body: JSON.stringify(params)
-    });
+    do {
+      const { data, nextRowNumber } = await this.reportsRequest<ReportsDetailedRow[]>(
+        `/workspace/${workspaceId}/search/time_entries`,
+        { page_size: 50, ...params, first_row_number: firstRowNumber }
+      );
+      rows.push(...data);
+      firstRowNumber = nextRowNumber;
+    } while (firstRowNumber);
     
-    if (!response.ok) {
-      throw new Error(`Reports API error: ${response.status}`);
+    return rows;
+  }
+  
+  // Detailed report entries as v9-shaped time entries
+  async getDetailedTimeEntries(workspaceId: number, params: ReportsDetailedRequest): Promise<TimeEntry[]> {
+    const rows = await this.getDetailedReport(workspaceId, { ...params, grouped: false });
+    return detailedRowsToTimeEntries(workspaceId, rows);
+  }
+  
+  // Detailed report entries for any span of days, searched a year at a time
+  // from the newest end
+  async searchTimeEntries(
+    workspaceId: number,
+    params: ReportsDetailedRequest & { end_date: string }
+  ): Promise<TimeEntry[]> {
+    const entries: TimeEntry[] = [];
+    let chunkEnd = params.end_date;
+    while (chunkEnd >= params.start_date) {
+      const earliest = addDays(chunkEnd, -(REPORTS_MAX_RANGE_DAYS - 1));
+      const chunkStart = earliest > params.start_date ? earliest : params.start_date;
+      entries.push(...await this.getDetailedTimeEntries(workspaceId, {
+        ...params,
+        start_date: chunkStart,
+        end_date: chunkEnd
+      }));
+      chunkEnd = addDays(chunkStart, -1);
     }
+    return entries;
+  }
+  
+  // Reports API v3: totals grouped by project/client/user
+  async getSummaryReport(workspaceId: number, params: ReportsSummaryRequest): Promise<ReportsSummaryResponse> {
+    const { data } = await this.reportsRequest<ReportsSummaryResponse>(
+      `/workspace/${workspaceId}/summary/time_entries`,
+      params
+    );
+    return { groups: data.groups || [] };
+  }
+  
+  // Reports API v3: per-day seconds for each user/project over a week
+  async getWeeklyReport(workspaceId: number, params: ReportsWeeklyRequest): Promise<ReportsWeeklyRow[]> {
+    const rows: ReportsWeeklyRow[] = [];
+    let firstRowNumber: number | undefined;
+    
+    do {
+      const { data, nextRowNumber } = await this.reportsRequest<ReportsWeeklyRow[]>(
+        `/workspace/${workspaceId}/weekly/time_entries`,
+        firstRowNumber ? { ...params, first_row_number: firstRowNumber } : params
+      );
+      rows.push(...data);
+      firstRowNumber = nextRowNumber;
+    } while (firstRowNumber);
     
-    return response.json();
+    return rows;
   }
 }
@@ -4,13 +4,51 @@ export interface TogglConfig {
   defaultWorkspaceId?: number;
 }
 
+// HTTP transport used by TogglAPI. Matches the subset of fetch() we rely on,
+// so node-fetch, the global fetch, or an in-memory fake can be plugged in.
+export interface TogglFetchInit {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface TogglFetchResponse {
+  ok: boolean;
+  status: number;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+  json(): Promise<unknown>;
+}
+
+export type TogglFetch = (url: string, init: TogglFetchInit) => Promise<TogglFetchResponse>;
+
+export interface TogglAPIOptions {
+  baseUrl?: string;         // Track API v9 base (default: https://api.track.toggl.com/api/v9)
+  reportsBaseUrl?: string;  // Reports API v3 base (derived from baseUrl when omitted)
+  fetch?: TogglFetch;       // Transport override (default: node-fetch)
+  timeEntriesWindowDays?: number;  // Split /me/time_entries ranges into windows this long (default: 31)
+  timeEntriesPageLimit?: number;   // Page backwards when a request returns this many entries (default: 1000)
+}
+
 export interface CacheConfig {
   ttl: number;        // Time-to-live in milliseconds
   maxSize: number;    // Maximum number of cached entities
   batchSize: number;  // Number of entries to fetch per request
+  limits?: Partial<Record<CacheEntityType, number>>;  // Per-type caps (default: weighted share of maxSize)
+  syncInterval?: number;  // Minimum ms between delta syncs (0 disables)
+  hydrationConcurrency?: number;  // Max parallel API lookups while hydrating (default: 4)
+  persistDir?: string;  // Directory for the on-disk cache (in-memory only when unset)
+  persistKey?: string;  // Distinguishes cache files per account
 }
 
 // Core Toggl entities
+export interface Organization {
+  id: number;
+  name: string;
+  created_at?: string;
+  at?: string;
+}
+
 export interface Workspace {
   id: number;
   name: string;
@@ -20,6 +58,7 @@ export interface Workspace {
   business_ws?: boolean;
   admin?: boolean;
   default_currency?: string;
+  default_hourly_rate?: number;
   only_admins_may_create_projects?: boolean;
   only_admins_may_create_tags?: boolean;
   only_admins_see_billable_rates?: boolean;
@@ -58,6 +97,7 @@ export interface Project {
   actual_hours?: number;
   wid?: number;
   cid?: number;
+  server_deleted_at?: string;
 }
 
 export interface Client {
@@ -68,6 +108,7 @@ export interface Client {
   notes?: string;
   archived?: boolean;
   wid?: number;
+  server_deleted_at?: string;
 }
 
 export interface Task {
@@ -81,6 +122,7 @@ export interface Task {
   at?: string;
   tracked_seconds?: number;
   estimated_seconds?: number;
+  server_deleted_at?: string;
 }
 
 export interface User {
@@ -102,6 +144,7 @@ export interface Tag {
   workspace_id: number;
   name: string;
   at?: string;
+  server_deleted_at?: string;
 }
 
 // Time entry interfaces
@@ -136,6 +179,9 @@ export interface HydratedTimeEntry extends TimeEntry {
   client_id?: number;
   user_name?: string;
   tag_names?: string[];
+  hourly_rate?: number;  // Project rate, falling back to the workspace default
+  currency?: string;
+  fixed_fee?: number;
 }
 
 // Report interfaces
@@ -145,7 +191,11 @@ export interface DailyReport {
   total_seconds: number;
   entries: ReportEntry[];
   by_project: ProjectSummary[];
+  by_client: ClientSummary[];
   by_workspace: WorkspaceSummary[];
+  by_user: UserSummary[];
+  by_tag: TagSummary[];
+  top_descriptions: DescriptionSummary[];
 }
 
 export interface WeeklyReport {
@@ -155,7 +205,124 @@ export interface WeeklyReport {
   total_seconds: number;
   daily_breakdown: DailyReport[];
   by_project: ProjectSummary[];
+  by_client: ClientSummary[];
   by_workspace: WorkspaceSummary[];
+  by_user: UserSummary[];
+  by_tag: TagSummary[];
+  top_descriptions: DescriptionSummary[];
+}
+
+export interface BillableAmount {
+  currency: string;
+  amount: number;
+}
+
+// Money earned by billable time. Amounts in different currencies are listed
+// separately and never summed; billable_amount/currency are only set when
+// everything is in one currency.
+export interface BillableTotals {
+  billable_amount?: number;
+  currency?: string;
+  billable_amounts: BillableAmount[];
+}
+
+// Totals for one slice of a period report
+export interface BreakdownTotals extends BillableTotals {
+  total_hours: number;
+  total_seconds: number;
+  billable_hours: number;
+  billable_seconds: number;
+  entry_count: number;
+}
+
+export interface DayBreakdown extends BreakdownTotals {
+  date: string;
+}
+
+export interface WeekBreakdown extends BreakdownTotals {
+  week_start: string;  // Clipped to the period
+  week_end: string;
+}
+
+// Report over an arbitrary range (month, quarter, custom dates)
+export interface PeriodReport extends BreakdownTotals {
+  period_start: string;
+  period_end: string;  // Last day, inclusive
+  daily_breakdown: DayBreakdown[];
+  weekly_breakdown: WeekBreakdown[];
+  by_project: ProjectSummary[];
+  by_client: ClientSummary[];
+  by_workspace: WorkspaceSummary[];
+  by_user: UserSummary[];
+  by_tag: TagSummary[];
+  top_descriptions: DescriptionSummary[];
+  comparison?: PeriodComparison;
+}
+
+export interface ProjectChange {
+  project_id?: number;
+  project_name: string;
+  client_name?: string;
+  workspace_name: string;
+  current_hours: number;
+  previous_hours: number;
+  delta_hours: number;
+  percent_change: number | null;  // null when there was no previous time
+}
+
+// A period report measured against the previous equivalent period
+export interface PeriodComparison {
+  previous_start: string;
+  previous_end: string;
+  previous_total_hours: number;
+  previous_billable_hours: number;
+  delta_hours: number;
+  delta_billable_hours: number;
+  percent_change: number | null;
+  billable_percent_change: number | null;
+  by_project: ProjectChange[];
+}
+
+// Timesheet export (see timesheet-export.ts)
+export type TimesheetFormat = 'csv' | 'xlsx-csv' | 'json' | 'ics';
+
+export interface TimesheetExportResult {
+  path: string;
+  format: TimesheetFormat;
+  bytes: number;
+  sha256: string;
+  entry_count: number;
+  total_hours: number;
+  skipped_running: number;  // Running timers are left out until stopped
+}
+
+// Pivot reports (see aggregation.ts)
+export type PivotDimension =
+  'workspace' | 'client' | 'project' | 'task' | 'tag' | 'user' | 'day' | 'week' | 'month' | 'billable';
+
+export type PivotMetric = 'hours' | 'billable_hours' | 'entry_count' | 'amount';
+
+// Only the requested metrics are set
+export interface PivotMetrics extends Partial<BillableTotals> {
+  hours?: number;
+  billable_hours?: number;
+  entry_count?: number;
+}
+
+export interface PivotNode extends PivotMetrics {
+  dimension: PivotDimension;
+  key: string;   // Display name, date, week start, YYYY-MM, or Billable/Non-billable
+  id?: number;   // Entity id for workspace, client, project, task and user groups
+  children?: PivotNode[];
+}
+
+export interface PivotReport {
+  period_start: string;
+  period_end: string;
+  dimensions: PivotDimension[];
+  metrics: PivotMetric[];
+  totals: PivotMetrics;
+  rows: PivotNode[];
 }
 
 export interface ReportEntry {
@@ -173,7 +340,7 @@ export interface ReportEntry {
   billable?: boolean;
 }
 
-export interface ProjectSummary {
+export interface ProjectSummary extends BillableTotals {
   project_id?: number;
   project_name: string;
   client_name?: string;
@@ -183,9 +350,45 @@ export interface ProjectSummary {
   billable_hours: number;
   billable_seconds: number;
   entry_count: number;
+  hourly_rate?: number;
+  fixed_fee?: number;  // Agreed project fee, reported as-is rather than prorated
 }
 
-export interface WorkspaceSummary {
+export interface ClientSummary extends BillableTotals {
+  client_id?: number;
+  client_name: string;
+  workspace_name: string;
+  total_hours: number;
+  total_seconds: number;
+  billable_hours: number;
+  billable_seconds: number;
+  project_count: number;
+  entry_count: number;
+  projects?: ProjectSummary[];  // Per-project breakdown, included by toggl_client_summary
+}
+
+// Entries with several tags count toward each of them, so tag totals can
+// add up to more than the report total
+export interface TagSummary extends BillableTotals {
+  tag_id?: number;  // Missing for "Untagged" and tags that could not be looked up
+  tag_name: string;  // "Untagged" for entries without tags
+  total_hours: number;
+  total_seconds: number;
+  billable_hours: number;
+  billable_seconds: number;
+  entry_count: number;
+  top_descriptions?: DescriptionSummary[];  // Included by toggl_tag_summary
+}
+
+export interface DescriptionSummary {
+  description: string;  // "(no description)" for entries without one
+  total_hours: number;
+  total_seconds: number;
+  entry_count: number;
+  projects: string[];
+}
+
+export interface WorkspaceSummary extends BillableTotals {
   workspace_id: number;
   workspace_name: string;
   total_hours: number;
@@ -196,6 +399,17 @@ export interface WorkspaceSummary {
   entry_count: number;
 }
 
+export interface UserSummary extends BillableTotals {
+  user_id?: number;
+  user_name: string;
+  total_hours: number;
+  total_seconds: number;
+  billable_hours: number;
+  billable_seconds: number;
+  project_count: number;
+  entry_count: number;
+}
+
 // API request/response interfaces
 export interface TimeEntriesRequest {
   start_date?: string;  // ISO 8601 date
@@ -248,6 +462,20 @@ export interface CreateClientRequest {
   notes?: string;
 }
 
+export interface CreateTaskRequest {
+  name: string;
+  active?: boolean;
+  estimated_seconds?: number;
+  user_id?: number;
+}
+
+export interface UpdateTaskRequest {
+  name?: string;
+  active?: boolean;
+  estimated_seconds?: number | null;
+  user_id?: number | null;
+}
+
 export interface UpdateTimeEntryRequest {
   project_id?: number;
   task_id?: number;
@@ -260,7 +488,98 @@ export interface UpdateTimeEntryRequest {
   duration?: number;
 }
 
+// Reports API v3 interfaces
+export interface ReportsFilters {
+  start_date: string;   // YYYY-MM-DD
+  end_date?: string;    // YYYY-MM-DD, inclusive
+  user_ids?: number[];
+  project_ids?: (number | null)[];  // null matches entries without a project
+  client_ids?: (number | null)[];
+  task_ids?: (number | null)[];
+  tag_ids?: (number | null)[];
+  description?: string;
+  billable?: boolean;
+}
+
+export interface ReportsDetailedRequest extends ReportsFilters {
+  grouped?: boolean;
+  order_by?: 'date' | 'user' | 'duration' | 'description' | 'last_update';
+  order_dir?: 'ASC' | 'DESC';
+  page_size?: number;
+  first_row_number?: number;  // Managed automatically by TogglAPI.getDetailedReport
+}
+
+export interface ReportsDetailedTimeEntry {
+  id: number;
+  seconds: number;
+  start: string;
+  stop: string;
+  at: string;
+}
+
+export interface ReportsDetailedRow {
+  user_id: number;
+  username: string;
+  project_id: number | null;
+  task_id: number | null;
+  billable: boolean;
+  description: string;
+  tag_ids: number[];
+  billable_amount_in_cents: number | null;
+  hourly_rate_in_cents: number | null;
+  currency: string;
+  time_entries: ReportsDetailedTimeEntry[];
+  row_number: number;
+}
+
+export type ReportsSummaryGrouping = 'projects' | 'clients' | 'users';
+export type ReportsSummarySubGrouping = 'time_entries' | 'tasks' | 'projects' | 'clients' | 'users';
+
+export interface ReportsSummaryRequest extends ReportsFilters {
+  grouping?: ReportsSummaryGrouping;
+  sub_grouping?: ReportsSummarySubGrouping;
+  include_time_entry_ids?: boolean;
+}
+
+export interface ReportsSummarySubGroup {
+  id: number | null;
+  title?: string | null;
+  seconds: number;
+  ids?: number[];
+}
+
+export interface ReportsSummaryGroup {
+  id: number | null;
+  sub_groups: ReportsSummarySubGroup[];
+}
+
+export interface ReportsSummaryResponse {
+  groups: ReportsSummaryGroup[];
+}
+
+export type ReportsWeeklyRequest = ReportsFilters;
+
+export interface ReportsWeeklyRow {
+  user_id: number;
+  project_id: number | null;
+  seconds: number[];  // One value per day, starting at start_date
+  billable_amounts_in_cents?: number[] | null;
+  currency?: string;
+  row_number?: number;
+}
+
 // Cache interfaces
+export interface CacheEntityMap {
+  workspaces: Workspace;
+  projects: Project;
+  clients: Client;
+  tasks: Task;
+  users: User;
+  tags: Tag;
+}
+
+export type CacheEntityType = keyof CacheEntityMap;
+
 export interface CacheEntry<T> {
   data: T;
   timestamp: Date;
@@ -277,6 +596,29 @@ export interface CacheStats {
   hits: number;
   misses: number;
   lastReset: Date;
+  limits: Record<CacheEntityType, number>;
+  evictions: Record<CacheEntityType, number>;
+  lastSync?: Date;
+  hydration: HydrationStats;
+  persistPath?: string;
+}
+
+// Timing for hydrateTimeEntries
+export interface HydrationStats {
+  runs: number;
+  entries: number;
+  totalMs: number;
+  averageMs: number;
+  lastMs: number;
+  lastEntries: number;
+  lastLookups: number;  // API lookups needed by the last run (0 when fully cached)
+}
+
+// Outcome of a delta sync (counts of entities patched into the cache)
+export interface CacheSyncResult {
+  since: Date;
+  updated: Record<'projects' | 'clients' | 'tasks' | 'tags', number>;
+  removed: number;
 }
 
 // Error handling
@@ -294,10 +636,32 @@ export interface ToolResponse<T = any> {
   error?: TogglError;
 }
 
+// Part of a requested range that Toggl would not return
+export interface DataLimitation {
+  start: string;  // ISO timestamps
+  end: string;
+  reason: string;
+}
+
+// Time entries for a range, noting any part Toggl refused (e.g. beyond the
+// history /me/time_entries serves)
+export interface TimeEntriesResult {
+  entries: TimeEntry[];
+  limited?: DataLimitation;
+}
+
 // Aggregation helpers
 export interface DateRange {
   start: Date;
-  end: Date;
+  end: Date;  // Exclusive
+  toDate?: 'week' | 'month' | 'quarter' | 'year';  // Set for "quarter to date" etc., which compare against the previous unit
+}
+
+// Calendar used for period boundaries and day bucketing
+export interface TimeZoneSettings {
+  timeZone: string;         // IANA name, e.g. "Europe/Berlin"
+  beginningOfWeek: number;  // 0 = Sunday ... 6 = Saturday, as in Toggl profiles
+  fiscalYearStartMonth?: number;  // 1 = January (default) ... 12 = December
 }
 
 export interface GroupedEntries {
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findByName, getDateRange, getDayRange, getPreviousRange, toZonedDate } from './utils.js';
+import type { DateRange } from './types.js';
+
+const UTC = { timeZone: 'UTC', beginningOfWeek: 1 };
+
+function days(range: DateRange): [string, string] {
+  return [toZonedDate(range.start, 'UTC'), toZonedDate(range.end, 'UTC')];
+}
+
+test('quarter to date in the first month of a quarter compares with the previous quarter', () => {
+  const range: DateRange = { ...getDayRange('2026-10-01', '2026-10-15', 'UTC'), toDate: 'quarter' };
+  assert.deepEqual(days(getPreviousRange(range, 'UTC')), ['2026-07-01', '2026-07-16']);
+});
+
+test('month to date compares with the same days of the previous month', () => {
+  const range: DateRange = { ...getDayRange('2026-10-01', '2026-10-15', 'UTC'), toDate: 'month' };
+  assert.deepEqual(days(getPreviousRange(range, 'UTC')), ['2026-09-01', '2026-09-16']);
+});
+
+test('to-date periods carry their unit', () => {
+  assert.equal(getDateRange('quarter to date', UTC).toDate, 'quarter');
+  assert.equal(getDateRange('ytd', UTC).toDate, 'year');
+  assert.equal(getDateRange('this quarter', UTC).toDate, undefined);
+});
+
+test('whole months and arbitrary ranges step back by their length', () => {
+  assert.deepEqual(days(getPreviousRange(getDateRange('2026-03', UTC), 'UTC')), ['2026-02-01', '2026-03-01']);
+  assert.deepEqual(
+    days(getPreviousRange(getDayRange('2026-10-05', '2026-10-11', 'UTC'), 'UTC')),
+    ['2026-09-28', '2026-10-05']
+  );
+});
+
+test('partial months, single days and open-ended ranges step back by their exact length', () => {
+  assert.deepEqual(
+    days(getPreviousRange(getDayRange('2026-10-01', '2026-10-14', 'UTC'), 'UTC')),
+    ['2026-09-17', '2026-10-01']
+  );
+  assert.deepEqual(days(getPreviousRange(getDateRange('2026-10-01', UTC), 'UTC')), ['2026-09-30', '2026-10-01']);
+  assert.deepEqual(days(getPreviousRange(getDateRange('Q3 2026', UTC), 'UTC')), ['2026-04-01', '2026-07-01']);
+});
+
+test('"since" ranges compare with the same number of days just before them', t => {
+  t.mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-10-19T12:00:00Z') });
+  const range = getDateRange('since 2026-09-01', UTC);
+  assert.deepEqual(days(range), ['2026-09-01', '2026-10-20']);
+  assert.deepEqual(days(getPreviousRange(range, 'UTC')), ['2026-07-14', '2026-09-01']);
+});
+
+test('named periods follow the week start and fiscal year from the settings', t => {
+  // Monday 2026-10-19
+  t.mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-10-19T12:00:00Z') });
+  assert.deepEqual(days(getDateRange('week', UTC)), ['2026-10-19', '2026-10-26']);
+  assert.deepEqual(days(getDateRange('last week', UTC)), ['2026-10-12', '2026-10-19']);
+  assert.deepEqual(days(getDateRange('last week', { ...UTC, beginningOfWeek: 0 })), ['2026-10-11', '2026-10-18']);
+  assert.deepEqual(days(getDateRange('lastMonth', UTC)), ['2026-09-01', '2026-10-01']);
+  assert.deepEqual(days(getDateRange('since 2026-10-01', UTC)), ['2026-10-01', '2026-10-20']);
+
+  const april = { ...UTC, fiscalYearStartMonth: 4 };
+  assert.deepEqual(days(getDateRange('this fiscal year', april)), ['2026-04-01', '2027-04-01']);
+  assert.deepEqual(days(getDateRange('last fiscal year', april)), ['2025-04-01', '2026-04-01']);
+  assert.deepEqual(days(getDateRange('FY2026', april)), ['2025-04-01', '2026-04-01']);
+  assert.deepEqual(days(getDateRange('FY26', UTC)), ['2026-01-01', '2027-01-01']);
+});
+
+test('periods follow the time zone from the settings', t => {
+  t.mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-10-19T02:00:00Z') });
+  const range = getDateRange('today', { timeZone: 'America/New_York', beginningOfWeek: 1 });
+  assert.equal(range.start.toISOString(), '2026-10-18T04:00:00.000Z');
+  assert.equal(range.end.toISOString(), '2026-10-19T04:00:00.000Z');
+});
+
+test('unrecognized or invalid periods are rejected', () => {
+  for (const period of ['someday', '2026-02-30', '2026-13', 'since tomorrow']) {
+    assert.throws(() => getDateRange(period, UTC), /Unrecognized period/);
+  }
+  assert.throws(() => getDateRange('last 0 days', UTC), /count of at least 1/);
+  assert.throws(() => getDateRange('2026-10-10..2026-10-01', UTC), /ends before it starts/);
+});
+
+const named = (...names: string[]) => names.map((name, i) => ({ id: i + 1, name }));
+const matches = (items: { name: string }[], query: string) => findByName(items, query).map(item => item.name);
+
+test('exact names win over looser matches, ignoring case and spacing', () => {
+  const items = named('Website', 'Website Redesign');
+  assert.deepEqual(matches(items, '  website '), ['Website']);
+});
+
+test('substrings match when nothing matches exactly', () => {
+  const items = named('Website Redesign', 'Mobile App', 'Site Audit');
+  assert.deepEqual(matches(items, 'redesign'), ['Website Redesign']);
+  assert.deepEqual(matches(items, 'site'), ['Website Redesign', 'Site Audit']);
+});
+
+test('every query word can match the start of a name word', () => {
+  const items = named('Acme - Website Redesign', 'Acme - Mobile App');
+  assert.deepEqual(matches(items, 'acm web'), ['Acme - Website Redesign']);
+});
+
+test('typos match the closest names within the allowed distance', () => {
+  const items = named('Marketing', 'Meetings', 'Support');
+  assert.deepEqual(matches(items, 'Marketnig'), ['Marketing']);
+  assert.deepEqual(matches(items, 'Suport'), ['Support']);
+  assert.deepEqual(matches(items, 'Engineering'), []);
+  assert.deepEqual(matches(items, '   '), []);
+});
@@ -2,10 +2,15 @@ import type {
   HydratedTimeEntry,
   DailyReport,
   WeeklyReport,
+  PeriodReport,
+  PeriodComparison,
+  ProjectChange,
+  BillableTotals,
   ProjectSummary,
-  WorkspaceSummary,
+  DescriptionSummary,
   ReportEntry,
-  DateRange
+  DateRange,
+  TimeZoneSettings
 } from './types.js';
 
 // Convert seconds to hours with decimal precision
@@ -39,105 +44,357 @@ export function formatDate(dateStr: string): string {
   });
 }
 
-// Get date range for various periods
-export function getDateRange(period: 'today' | 'yesterday' | 'week' | 'lastWeek' | 'month' | 'lastMonth'): DateRange {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  
-  switch (period) {
-    case 'today': {
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      return { start: today, end: tomorrow };
-    }
-    
-    case 'yesterday': {
-      const yesterday = new Date(today);
-      yesterday.setDate(yesterday.getDate() - 1);
-      return { start: yesterday, end: today };
-    }
-    
+// Time zone of the machine running the server
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Fallback calendar when the Toggl profile is unavailable: local zone, Monday weeks
+export function defaultTimeZoneSettings(): TimeZoneSettings {
+  return { timeZone: systemTimeZone(), beginningOfWeek: 1 };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock fields of an instant in a time zone
+function zonedParts(date: Date, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+  }
+  return parts as Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+}
+
+// Calendar day (YYYY-MM-DD) of an instant in a time zone
+export function toZonedDate(date: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Wall-clock time (HH:MM:SS) of an instant in a time zone
+export function toZonedTime(date: Date, timeZone: string): string {
+  const { hour, minute, second } = zonedParts(date, timeZone);
+  return [hour, minute, second].map(n => String(n).padStart(2, '0')).join(':');
+}
+
+// Midnight at the start of a calendar day (YYYY-MM-DD) in a time zone
+export function startOfZonedDay(day: string, timeZone: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, date);
+  // Offset at the guess, re-checked once in case midnight straddles a DST change
+  let instant = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const parts = zonedParts(new Date(instant), timeZone);
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    instant = wallClock - (asUtc - instant);
+  }
+  return new Date(instant);
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings
+export function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().split('T')[0];
+}
+
+function addMonths(day: string, months: number): string {
+  const [year, month] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1 + months, 1)).toISOString().split('T')[0];
+}
+
+// Range covering whole calendar days, end day inclusive
+export function getDayRange(startDay: string, endDay: string, timeZone: string): DateRange {
+  return {
+    start: startOfZonedDay(startDay, timeZone),
+    end: startOfZonedDay(addDays(endDay, 1), timeZone)
+  };
+}
+
+type PeriodUnit = 'day' | 'week' | 'month' | 'quarter' | 'year' | 'fiscal year';
+
+const PERIOD_UNITS: Record<string, PeriodUnit> = {
+  day: 'day', days: 'day',
+  week: 'week', weeks: 'week',
+  month: 'month', months: 'month',
+  quarter: 'quarter', quarters: 'quarter',
+  year: 'year', years: 'year',
+  'fiscal year': 'fiscal year', 'fiscal years': 'fiscal year'
+};
+
+// First day of the unit containing `day`, shifted by whole units
+function unitStart(day: string, unit: PeriodUnit, offset: number, settings: TimeZoneSettings): string {
+  const [year, month, date] = day.split('-').map(Number);
+  switch (unit) {
+    case 'day':
+      return addDays(day, offset);
     case 'week': {
-      const dayOfWeek = today.getDay();
-      const diff = today.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1);
-      const monday = new Date(today.setDate(diff));
-      const sunday = new Date(monday);
-      sunday.setDate(sunday.getDate() + 6);
-      sunday.setHours(23, 59, 59, 999);
-      return { start: monday, end: sunday };
-    }
-    
-    case 'lastWeek': {
-      const dayOfWeek = today.getDay();
-      const diff = today.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1) - 7;
-      const monday = new Date(today.setDate(diff));
-      const sunday = new Date(monday);
-      sunday.setDate(sunday.getDate() + 6);
-      sunday.setHours(23, 59, 59, 999);
-      return { start: monday, end: sunday };
-    }
-    
-    case 'month': {
-      const firstDay = new Date(today.getFullYear(), today.getMonth(), 1);
-      const lastDay = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-      lastDay.setHours(23, 59, 59, 999);
-      return { start: firstDay, end: lastDay };
+      const dayOfWeek = new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+      return addDays(day, -((dayOfWeek - settings.beginningOfWeek + 7) % 7) + offset * 7);
     }
-    
-    case 'lastMonth': {
-      const firstDay = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-      const lastDay = new Date(today.getFullYear(), today.getMonth(), 0);
-      lastDay.setHours(23, 59, 59, 999);
-      return { start: firstDay, end: lastDay };
+    case 'month':
+      return addMonths(day, offset);
+    case 'quarter':
+      return addMonths(day, -((month - 1) % 3) + offset * 3);
+    case 'year':
+      return addMonths(day, -(month - 1) + offset * 12);
+    case 'fiscal year': {
+      const startMonth = settings.fiscalYearStartMonth ?? 1;
+      return addMonths(day, -((month - startMonth + 12) % 12) + offset * 12);
     }
   }
 }
 
-// Group time entries by date
-export function groupEntriesByDate(entries: HydratedTimeEntry[]): Map<string, HydratedTimeEntry[]> {
-  const grouped = new Map<string, HydratedTimeEntry[]>();
+// Same calendar day shifted by whole units, clamped to the end of short months
+function shiftDay(day: string, unit: PeriodUnit, amount: number): string {
+  if (unit === 'day') return addDays(day, amount);
+  if (unit === 'week') return addDays(day, amount * 7);
+  const months = amount * (unit === 'month' ? 1 : unit === 'quarter' ? 3 : 12);
+  const [, , date] = day.split('-').map(Number);
+  const monthStart = addMonths(day, months);
+  const lastDate = Number(addDays(addMonths(monthStart, 1), -1).split('-')[2]);
+  return `${monthStart.slice(0, 8)}${String(Math.min(date, lastDate)).padStart(2, '0')}`;
+}
+
+function isCalendarDay(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && addDays(value, 0) === value;
+}
+
+// First day of the week containing `day`
+export function getWeekStart(day: string, settings: TimeZoneSettings): string {
+  return unitStart(day, 'week', 0, settings);
+}
+
+// Week containing today, shifted by whole weeks (-1 = last week)
+export function getWeekRange(weekOffset = 0, settings: TimeZoneSettings = defaultTimeZoneSettings()): DateRange {
+  const weekStart = unitStart(toZonedDate(new Date(), settings.timeZone), 'week', weekOffset, settings);
+  return getDayRange(weekStart, addDays(weekStart, 6), settings.timeZone);
+}
+
+// Month containing today, shifted by whole months (-1 = last month)
+export function getMonthRange(monthOffset = 0, settings: TimeZoneSettings = defaultTimeZoneSettings()): DateRange {
+  const monthStart = addMonths(toZonedDate(new Date(), settings.timeZone), monthOffset);
+  return {
+    start: startOfZonedDay(monthStart, settings.timeZone),
+    end: startOfZonedDay(addMonths(monthStart, 1), settings.timeZone)
+  };
+}
+
+// The equivalent range before `range`. Week, month, quarter or year to date
+// steps back one unit from its start to the same point; whole months, quarters
+// and years step back by their own length in months; any other range steps back
+// exactly its number of days, ending where it starts.
+export function getPreviousRange(range: DateRange, timeZone: string): DateRange {
+  const startDay = toZonedDate(range.start, timeZone);
+  const endDay = toZonedDate(range.end, timeZone);
+  const [startYear, startMonth, startDate] = startDay.split('-').map(Number);
+  const [endYear, endMonth, endDate] = endDay.split('-').map(Number);
   
-  entries.forEach(entry => {
-    const date = entry.start.split('T')[0];
-    if (!grouped.has(date)) {
-      grouped.set(date, []);
-    }
-    grouped.get(date)!.push(entry);
-  });
+  if (range.toDate) {
+    return {
+      start: startOfZonedDay(shiftDay(startDay, range.toDate, -1), timeZone),
+      end: startOfZonedDay(shiftDay(endDay, range.toDate, -1), timeZone)
+    };
+  }
   
-  return grouped;
+  const months = (endYear - startYear) * 12 + (endMonth - startMonth);
+  if (startDate === 1 && endDate === 1 && months > 0) {
+    return {
+      start: startOfZonedDay(addMonths(startDay, -months), timeZone),
+      end: range.start
+    };
+  }
+  
+  const days = Math.round((Date.parse(endDay) - Date.parse(startDay)) / 86400000);
+  return {
+    start: startOfZonedDay(addDays(startDay, -days), timeZone),
+    end: range.start
+  };
 }
 
-// Group time entries by project
-export function groupEntriesByProject(entries: HydratedTimeEntry[]): Map<string, HydratedTimeEntry[]> {
-  const grouped = new Map<string, HydratedTimeEntry[]>();
-  
-  entries.forEach(entry => {
-    const key = entry.project_name || 'No Project';
-    if (!grouped.has(key)) {
-      grouped.set(key, []);
-    }
-    grouped.get(key)!.push(entry);
+const PERIOD_EXAMPLES = [
+  'today', 'yesterday', 'this week', 'last month', 'last 14 days', 'previous 3 months',
+  'Q3 2026', 'this quarter', 'this year', '2025', '2026-09', 'year to date',
+  'since 2026-09-01', '2026-09-01..2026-09-30', 'this fiscal year', 'FY2026'
+];
+
+// Parse a period expression into a range in the given (default: local) time zone.
+// Accepts today/yesterday; this|last week|month|quarter|year|fiscal year (also
+// camelCase like lastWeek); rolling "last N days|weeks|months|quarters|years"
+// ending today; whole "previous N ..." periods before the current one; Q3,
+// Q3 2026, 2026, 2026-09, 2026-09-15; week/month/quarter/year to date;
+// "since <day>"; "<day>..<day>"; and FY2026 (the fiscal year ending in 2026).
+export function getDateRange(period: string, settings: TimeZoneSettings = defaultTimeZoneSettings()): DateRange {
+  const today = toZonedDate(new Date(), settings.timeZone);
+  const tomorrow = addDays(today, 1);
+  const days = (startDay: string, endDayExclusive: string): DateRange => ({
+    start: startOfZonedDay(startDay, settings.timeZone),
+    end: startOfZonedDay(endDayExclusive, settings.timeZone)
   });
+  const unitRange = (unit: PeriodUnit, offset: number, count = 1) =>
+    days(unitStart(today, unit, offset, settings), unitStart(today, unit, offset + count, settings));
+  
+  const text = period
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, ' ');
+  const unitPattern = '(days?|weeks?|months?|quarters?|years?|fiscal years?)';
+  let match: RegExpMatchArray | null;
+  
+  if (text === 'today') return unitRange('day', 0);
+  if (text === 'yesterday') return unitRange('day', -1);
+  
+  if ((match = text.match(new RegExp(`^(?:(this|current|last|prev|previous) )?${unitPattern}$`)))) {
+    const unit = PERIOD_UNITS[match[2]];
+    return unitRange(unit, match[1] && !['this', 'current'].includes(match[1]) ? -1 : 0);
+  }
+  
+  if ((match = text.match(new RegExp(`^(last|past|previous|prev) (\\d+) ${unitPattern}$`)))) {
+    const count = parseInt(match[2]);
+    const unit = PERIOD_UNITS[match[3]];
+    if (count < 1) throw new Error(`Period "${period}" needs a count of at least 1`);
+    // Rolling window ending today, vs. whole periods before the current one
+    return match[1] === 'last' || match[1] === 'past'
+      ? days(addDays(shiftDay(today, unit, -count), 1), tomorrow)
+      : unitRange(unit, -count, count);
+  }
+  
+  if ((match = text.match(/^(week|month|quarter|year) to date$|^([wmqy])td$/))) {
+    const abbreviations: Record<string, PeriodUnit> = { w: 'week', m: 'month', q: 'quarter', y: 'year' };
+    const unit = match[1] ? PERIOD_UNITS[match[1]] : abbreviations[match[2]];
+    return { ...days(unitStart(today, unit, 0, settings), tomorrow), toDate: unit as DateRange['toDate'] };
+  }
+  
+  if ((match = text.match(/^q([1-4])(?: (\d{4}))?$|^(\d{4})[- ]?q([1-4])$/))) {
+    const quarter = parseInt(match[1] ?? match[4]);
+    const year = match[2] ?? match[3] ?? today.slice(0, 4);
+    const quarterStart = `${year}-${String((quarter - 1) * 3 + 1).padStart(2, '0')}-01`;
+    return days(quarterStart, addMonths(quarterStart, 3));
+  }
+  
+  if ((match = text.match(/^fy ?(\d{2}|\d{4})$/))) {
+    const endYear = match[1].length === 2 ? 2000 + parseInt(match[1]) : parseInt(match[1]);
+    const startMonth = settings.fiscalYearStartMonth ?? 1;
+    // FY2026 is the fiscal year that ends in 2026
+    const fiscalStart = `${startMonth === 1 ? endYear : endYear - 1}-${String(startMonth).padStart(2, '0')}-01`;
+    return days(fiscalStart, addMonths(fiscalStart, 12));
+  }
+  
+  if (/^\d{4}$/.test(text)) return days(`${text}-01-01`, `${parseInt(text) + 1}-01-01`);
   
-  return grouped;
+  if (/^\d{4}-\d{2}$/.test(text) && isCalendarDay(`${text}-01`)) {
+    return days(`${text}-01`, addMonths(`${text}-01`, 1));
+  }
+  
+  if (isCalendarDay(text)) return days(text, addDays(text, 1));
+  
+  if ((match = text.match(/^(?:since|from) (\d{4}-\d{2}-\d{2})$/)) && isCalendarDay(match[1])) {
+    return days(match[1], tomorrow);
+  }
+  
+  if ((match = text.match(/^(\d{4}-\d{2}-\d{2}) ?(?:\.\.|to) ?(\d{4}-\d{2}-\d{2})$/))
+      && isCalendarDay(match[1]) && isCalendarDay(match[2])) {
+    if (match[2] < match[1]) throw new Error(`Period "${period}" ends before it starts`);
+    return days(match[1], addDays(match[2], 1));
+  }
+  
+  throw new Error(`Unrecognized period "${period}". Examples: ${PERIOD_EXAMPLES.map(p => `"${p}"`).join(', ')}`);
 }
 
-// Group time entries by workspace
-export function groupEntriesByWorkspace(entries: HydratedTimeEntry[]): Map<string, HydratedTimeEntry[]> {
-  const grouped = new Map<string, HydratedTimeEntry[]>();
-  
-  entries.forEach(entry => {
-    const key = entry.workspace_name;
-    if (!grouped.has(key)) {
-      grouped.set(key, []);
+// Normalize a name for comparison: lowercase, trimmed, single-spaced
+function normalizeName(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+// Edit distance between two strings
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
     }
-    grouped.get(key)!.push(entry);
+  }
+  return previous[b.length];
+}
+
+// Find entities by name, trying progressively looser matches:
+// exact (case-insensitive), substring, all words as prefixes, then typo-tolerant.
+// Returns every candidate from the first tier that matches anything.
+export function findByName<T extends { name: string }>(items: T[], query: string): T[] {
+  const q = normalizeName(query);
+  if (!q) return [];
+  const named = items.map(item => ({ item, name: normalizeName(item.name) }));
+  
+  const exact = named.filter(n => n.name === q);
+  if (exact.length > 0) return exact.map(n => n.item);
+  
+  const substring = named.filter(n => n.name.includes(q));
+  if (substring.length > 0) return substring.map(n => n.item);
+  
+  const words = q.split(' ');
+  const prefixes = named.filter(n => {
+    const nameWords = n.name.split(/[\s\-_/.,:()]+/);
+    return words.every(w => nameWords.some(nw => nw.startsWith(w)));
   });
+  if (prefixes.length > 0) return prefixes.map(n => n.item);
   
-  return grouped;
+  // Allow roughly one typo per four characters
+  const maxDistance = Math.max(1, Math.floor(q.length / 4));
+  const scored = named
+    .map(n => ({ ...n, distance: levenshtein(q, n.name) }))
+    .filter(n => n.distance <= maxDistance);
+  if (scored.length === 0) return [];
+  const best = Math.min(...scored.map(n => n.distance));
+  return scored.filter(n => n.distance === best).map(n => n.item);
 }
 
+// Run async tasks with at most `limit` in flight, preserving result order
+export async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker));
+  return results;
+}
+
+export const UNTAGGED = 'Untagged';
+
 // Calculate total duration from entries
 export function calculateTotalDuration(entries: HydratedTimeEntry[]): number {
   return entries.reduce((total, entry) => {
@@ -149,6 +406,13 @@ export function calculateTotalDuration(entries: HydratedTimeEntry[]): number {
   }, 0);
 }
 
+// Billable duration from entries, leaving out running timers
+export function calculateBillableDuration(entries: HydratedTimeEntry[]): number {
+  return entries
+    .filter(e => e.billable)
+    .reduce((total, e) => total + (e.duration < 0 ? 0 : e.duration), 0);
+}
+
 // Create a report entry from a hydrated time entry
 export function createReportEntry(entry: HydratedTimeEntry): ReportEntry {
   const duration = entry.duration < 0
@@ -171,133 +435,132 @@ export function createReportEntry(entry: HydratedTimeEntry): ReportEntry {
   };
 }
 
-// Generate project summary
-export function generateProjectSummary(
-  projectName: string,
-  entries: HydratedTimeEntry[]
-): ProjectSummary {
-  const totalSeconds = calculateTotalDuration(entries);
-  const billableSeconds = entries
-    .filter(e => e.billable)
-    .reduce((total, e) => total + (e.duration < 0 ? 0 : e.duration), 0);
+// Billable amounts per currency, from each entry's resolved hourly rate.
+// Running timers and entries without a rate add nothing.
+export function summarizeBillableAmounts(entries: HydratedTimeEntry[]): BillableTotals {
+  const byCurrency = new Map<string, number>();
+  entries.forEach(entry => {
+    if (!entry.billable || !entry.hourly_rate || !entry.currency || entry.duration < 0) return;
+    const amount = (entry.duration / 3600) * entry.hourly_rate;
+    byCurrency.set(entry.currency, (byCurrency.get(entry.currency) || 0) + amount);
+  });
   
-  return {
-    project_id: entries[0]?.project_id,
-    project_name: projectName,
-    client_name: entries[0]?.client_name,
-    workspace_name: entries[0]?.workspace_name || 'Unknown',
-    total_hours: secondsToHours(totalSeconds),
-    total_seconds: totalSeconds,
-    billable_hours: secondsToHours(billableSeconds),
-    billable_seconds: billableSeconds,
-    entry_count: entries.length
-  };
+  const billableAmounts = Array.from(byCurrency, ([currency, amount]) => ({
+    currency,
+    amount: Math.round(amount * 100) / 100
+  })).sort((a, b) => b.amount - a.amount);
+  
+  return billableAmounts.length === 1
+    ? { billable_amount: billableAmounts[0].amount, currency: billableAmounts[0].currency, billable_amounts: billableAmounts }
+    : { billable_amounts: billableAmounts };
 }
 
-// Generate workspace summary
-export function generateWorkspaceSummary(
-  workspaceName: string,
-  workspaceId: number,
-  entries: HydratedTimeEntry[]
-): WorkspaceSummary {
-  const totalSeconds = calculateTotalDuration(entries);
-  const billableSeconds = entries
-    .filter(e => e.billable)
-    .reduce((total, e) => total + (e.duration < 0 ? 0 : e.duration), 0);
-  
-  const projectIds = new Set(entries.map(e => e.project_id).filter(Boolean));
-  
-  return {
-    workspace_id: workspaceId,
-    workspace_name: workspaceName,
-    total_hours: secondsToHours(totalSeconds),
-    total_seconds: totalSeconds,
-    billable_hours: secondsToHours(billableSeconds),
-    billable_seconds: billableSeconds,
-    project_count: projectIds.size,
-    entry_count: entries.length
-  };
+// Amounts for display, e.g. "1,250.00 USD + 300.00 EUR"
+export function formatBillableAmounts(totals: BillableTotals): string {
+  return totals.billable_amounts
+    .map(({ currency, amount }) => `${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`)
+    .join(' + ');
 }
 
-// Generate daily report
-export function generateDailyReport(date: string, entries: HydratedTimeEntry[]): DailyReport {
-  const totalSeconds = calculateTotalDuration(entries);
-  const reportEntries = entries.map(createReportEntry);
-  
-  // Group by project
-  const byProject = groupEntriesByProject(entries);
-  const projectSummaries: ProjectSummary[] = [];
-  byProject.forEach((projectEntries, projectName) => {
-    projectSummaries.push(generateProjectSummary(projectName, projectEntries));
-  });
-  
-  // Group by workspace
-  const byWorkspace = groupEntriesByWorkspace(entries);
-  const workspaceSummaries: WorkspaceSummary[] = [];
-  byWorkspace.forEach((wsEntries, wsName) => {
-    const wsId = wsEntries[0]?.workspace_id || 0;
-    workspaceSummaries.push(generateWorkspaceSummary(wsName, wsId, wsEntries));
+export const TOP_DESCRIPTIONS_LIMIT = 10;
+
+// Descriptions that took the most time. Matching ignores case and surrounding
+// whitespace; the first spelling seen is reported.
+export function summarizeDescriptions(
+  entries: HydratedTimeEntry[],
+  limit = TOP_DESCRIPTIONS_LIMIT
+): DescriptionSummary[] {
+  const grouped = new Map<string, { description: string; entries: HydratedTimeEntry[] }>();
+  entries.forEach(entry => {
+    const description = entry.description?.trim() || '(no description)';
+    const key = description.toLowerCase();
+    if (!grouped.has(key)) {
+      grouped.set(key, { description, entries: [] });
+    }
+    grouped.get(key)!.entries.push(entry);
   });
   
-  return {
-    date,
-    total_hours: secondsToHours(totalSeconds),
-    total_seconds: totalSeconds,
-    entries: reportEntries,
-    by_project: projectSummaries,
-    by_workspace: workspaceSummaries
-  };
+  return Array.from(grouped.values())
+    .map(({ description, entries: descriptionEntries }) => {
+      const totalSeconds = calculateTotalDuration(descriptionEntries);
+      return {
+        description,
+        total_hours: secondsToHours(totalSeconds),
+        total_seconds: totalSeconds,
+        entry_count: descriptionEntries.length,
+        projects: Array.from(new Set(descriptionEntries.map(e => e.project_name || 'No Project')))
+      };
+    })
+    .sort((a, b) => b.total_seconds - a.total_seconds)
+    .slice(0, limit);
 }
 
-// Generate weekly report
-export function generateWeeklyReport(
-  weekStart: Date,
-  weekEnd: Date,
-  entries: HydratedTimeEntry[]
-): WeeklyReport {
-  const totalSeconds = calculateTotalDuration(entries);
+function percentChange(current: number, previous: number): number | null {
+  return previous ? Math.round(((current - previous) / previous) * 1000) / 10 : null;
+}
+
+// Compare a period report with the previous equivalent period. Projects are
+// matched by id (or name when there is none) and sorted by the size of the change.
+export function comparePeriods(current: PeriodReport, previous: PeriodReport): PeriodComparison {
+  const projectKey = (p: ProjectSummary) => p.project_id !== undefined ? `id:${p.project_id}` : `name:${p.project_name}`;
   
-  // Group by date for daily breakdown
-  const byDate = groupEntriesByDate(entries);
-  const dailyBreakdown: DailyReport[] = [];
-  byDate.forEach((dateEntries, date) => {
-    dailyBreakdown.push(generateDailyReport(date, dateEntries));
+  const changes = new Map<string, { summary: ProjectSummary; current: number; previous: number }>();
+  current.by_project.forEach(p => {
+    changes.set(projectKey(p), { summary: p, current: p.total_seconds, previous: 0 });
   });
-  
-  // Sort daily reports
-  dailyBreakdown.sort((a, b) => a.date.localeCompare(b.date));
-  
-  // Overall project summaries
-  const byProject = groupEntriesByProject(entries);
-  const projectSummaries: ProjectSummary[] = [];
-  byProject.forEach((projectEntries, projectName) => {
-    projectSummaries.push(generateProjectSummary(projectName, projectEntries));
+  previous.by_project.forEach(p => {
+    const existing = changes.get(projectKey(p));
+    if (existing) {
+      existing.previous = p.total_seconds;
+    } else {
+      changes.set(projectKey(p), { summary: p, current: 0, previous: p.total_seconds });
+    }
   });
   
-  // Overall workspace summaries
-  const byWorkspace = groupEntriesByWorkspace(entries);
-  const workspaceSummaries: WorkspaceSummary[] = [];
-  byWorkspace.forEach((wsEntries, wsName) => {
-    const wsId = wsEntries[0]?.workspace_id || 0;
-    workspaceSummaries.push(generateWorkspaceSummary(wsName, wsId, wsEntries));
-  });
+  const byProject: ProjectChange[] = Array.from(changes.values())
+    .map(({ summary, current: currentSeconds, previous: previousSeconds }) => ({
+      project_id: summary.project_id,
+      project_name: summary.project_name,
+      client_name: summary.client_name,
+      workspace_name: summary.workspace_name,
+      current_hours: secondsToHours(currentSeconds),
+      previous_hours: secondsToHours(previousSeconds),
+      delta_hours: secondsToHours(currentSeconds - previousSeconds),
+      percent_change: percentChange(currentSeconds, previousSeconds)
+    }))
+    .sort((a, b) => Math.abs(b.delta_hours) - Math.abs(a.delta_hours));
   
   return {
-    week_start: weekStart.toISOString().split('T')[0],
-    week_end: weekEnd.toISOString().split('T')[0],
-    total_hours: secondsToHours(totalSeconds),
-    total_seconds: totalSeconds,
-    daily_breakdown: dailyBreakdown,
-    by_project: projectSummaries,
-    by_workspace: workspaceSummaries
+    previous_start: previous.period_start,
+    previous_end: previous.period_end,
+    previous_total_hours: previous.total_hours,
+    previous_billable_hours: previous.billable_hours,
+    delta_hours: secondsToHours(current.total_seconds - previous.total_seconds),
+    delta_billable_hours: secondsToHours(current.billable_seconds - previous.billable_seconds),
+    percent_change: percentChange(current.total_seconds, previous.total_seconds),
+    billable_percent_change: percentChange(current.billable_seconds, previous.billable_seconds),
+    by_project: byProject
   };
 }
 
 // Format report for display
-export function formatReportForDisplay(report: DailyReport | WeeklyReport): string {
+export function formatReportForDisplay(report: DailyReport | WeeklyReport | PeriodReport): string {
   const lines: string[] = [];
   
-  if ('week_start' in report) {
+  if ('period_start' in report) {
+    // Period report; weekly totals keep month and quarter reports readable
+    lines.push(`📊 Report (${report.period_start} to ${report.period_end})`);
+    lines.push(`Total: ${report.total_hours} hours (${report.billable_hours} billable)`);
+    if (report.billable_amounts.length > 0) {
+      lines.push(`Billable amount: ${formatBillableAmounts(report)}`);
+    }
+    lines.push('');
+    
+    lines.push('📅 Weekly Breakdown:');
+    report.weekly_breakdown.forEach(week => {
+      lines.push(`  ${week.week_start} to ${week.week_end}: ${week.total_hours}h`);
+    });
+  } else if ('week_start' in report) {
     // Weekly report
     lines.push(`📊 Weekly Report (${report.week_start} to ${report.week_end})`);
     lines.push(`Total: ${report.total_hours} hours`);
@@ -315,16 +578,67 @@ export function formatReportForDisplay(report: DailyReport | WeeklyReport): stri
   
   lines.push('');
   lines.push('🏢 By Workspace:');
+  const amount = (totals: BillableTotals) => totals.billable_amounts.length > 0 ? `, ${formatBillableAmounts(totals)}` : '';
   report.by_workspace.forEach(ws => {
-    lines.push(`  ${ws.workspace_name}: ${ws.total_hours}h (${ws.project_count} projects)`);
+    lines.push(`  ${ws.workspace_name}: ${ws.total_hours}h (${ws.project_count} projects)${amount(ws)}`);
   });
   
   lines.push('');
   lines.push('📁 By Project:');
   report.by_project.forEach(proj => {
     const client = proj.client_name ? ` (${proj.client_name})` : '';
-    lines.push(`  ${proj.project_name}${client}: ${proj.total_hours}h`);
+    lines.push(`  ${proj.project_name}${client}: ${proj.total_hours}h${amount(proj)}`);
   });
   
+  // Skip the section when no time was tracked against a client
+  if (report.by_client.some(c => c.client_id !== undefined)) {
+    lines.push('');
+    lines.push('👔 By Client:');
+    report.by_client.forEach(c => {
+      lines.push(`  ${c.client_name}: ${c.total_hours}h (${c.billable_hours}h billable)${amount(c)}`);
+    });
+  }
+  
+  // Skip the section when nothing was tagged
+  if (report.by_tag.some(tag => tag.tag_name !== UNTAGGED)) {
+    lines.push('');
+    lines.push('🏷️ By Tag:');
+    report.by_tag.forEach(tag => {
+      lines.push(`  ${tag.tag_name}: ${tag.total_hours}h (${tag.entry_count} entries)`);
+    });
+  }
+  
+  if (report.top_descriptions.length > 0) {
+    lines.push('');
+    lines.push('📝 Top Descriptions:');
+    report.top_descriptions.forEach(d => {
+      lines.push(`  ${d.description}: ${d.total_hours}h (${d.entry_count} entries)`);
+    });
+  }
+  
+  // Only worth a section when the report covers more than one person
+  if (report.by_user.length > 1) {
+    lines.push('');
+    lines.push('👥 By User:');
+    report.by_user.forEach(user => {
+      lines.push(`  ${user.user_name}: ${user.total_hours}h (${user.entry_count} entries)`);
+    });
+  }
+  
+  if ('comparison' in report && report.comparison) {
+    const comparison = report.comparison;
+    const signed = (hours: number) => `${hours > 0 ? '+' : ''}${hours}h`;
+    const percent = (value: number | null) => value === null ? '' : ` (${value > 0 ? '+' : ''}${value}%)`;
+    lines.push('');
+    lines.push(`↕️ Compared to ${comparison.previous_start} to ${comparison.previous_end}:`);
+    lines.push(`  Total: ${comparison.previous_total_hours}h → ${report.total_hours}h, ${signed(comparison.delta_hours)}${percent(comparison.percent_change)}`);
+    lines.push(`  Billable: ${comparison.previous_billable_hours}h → ${report.billable_hours}h, ${signed(comparison.delta_billable_hours)}${percent(comparison.billable_percent_change)}`);
+    comparison.by_project
+      .filter(change => change.delta_hours !== 0)
+      .forEach(change => {
+        lines.push(`  ${change.project_name}: ${change.previous_hours}h → ${change.current_hours}h, ${signed(change.delta_hours)}`);
+      });
+  }
+  
   return lines.join('\n');
 }
\ No newline at end of file